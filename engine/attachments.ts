@@ -0,0 +1,112 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+// -----------------------------
+// Chat attachments (images)
+// -----------------------------
+export type Attachment = {
+  id: string;
+  session_id: string;
+  name: string;
+  mime: string;
+  size: number;
+  sha256: string;
+  created_at: string;
+};
+
+// What a stored user message keeps; the bytes stay in the attachment store
+export type AttachmentRef = { id: string; name: string; mime: string };
+
+export class AttachmentError extends Error {}
+
+export const ATTACHMENT_ID_RE = /^att_[a-f0-9]{16}$/;
+const SESSION_ID_RE = /^[a-f0-9-]{36}$/;
+
+// Accepted types with the magic bytes that must match and the extension the file is stored with
+const IMAGE_TYPES: Record<string, { ext: string; magic: (b: Buffer) => boolean }> = {
+  "image/png": { ext: ".png", magic: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  "image/jpeg": { ext: ".jpg", magic: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  "image/gif": { ext: ".gif", magic: (b) => b.subarray(0, 6).toString("latin1") === "GIF87a" || b.subarray(0, 6).toString("latin1") === "GIF89a" },
+  "image/webp": { ext: ".webp", magic: (b) => b.subarray(0, 4).toString("latin1") === "RIFF" && b.subarray(8, 12).toString("latin1") === "WEBP" },
+};
+
+export function isSupportedImageType(mime: string): boolean {
+  return mime in IMAGE_TYPES;
+}
+
+export function extensionFor(mime: string): string {
+  return IMAGE_TYPES[mime]?.ext ?? "";
+}
+
+// Keeps the name readable but safe to show and to use as a file name
+function cleanName(name: string, mime: string): string {
+  const base = path.basename(name || "").replace(/[^\w.\- ]+/g, "_").trim().slice(0, 100);
+  return base || `image${extensionFor(mime)}`;
+}
+
+// dir/<session id>/<attachment id>.<ext> with a <attachment id>.json manifest next to it
+export function createAttachmentStore(dir: string, opts: { maxBytes: () => number }) {
+  function sessionDir(sessionId: string): string {
+    if (!SESSION_ID_RE.test(sessionId)) throw new AttachmentError("Invalid session id");
+    return path.join(dir, sessionId);
+  }
+
+  function save(sessionId: string, input: { name: string; mime: string; data: Buffer }): Attachment {
+    const type = IMAGE_TYPES[input.mime];
+    if (!type) throw new AttachmentError(`Unsupported type ${input.mime || "(none)"}; use PNG, JPEG, GIF or WebP`);
+    if (!input.data.length) throw new AttachmentError("Empty upload");
+    if (input.data.length > opts.maxBytes()) throw new AttachmentError(`Attachment exceeds ${opts.maxBytes()} bytes`);
+    if (!type.magic(input.data)) throw new AttachmentError(`Content is not a valid ${input.mime} image`);
+    const attachment: Attachment = {
+      id: `att_${crypto.randomBytes(8).toString("hex")}`,
+      session_id: sessionId,
+      name: cleanName(input.name, input.mime),
+      mime: input.mime,
+      size: input.data.length,
+      sha256: crypto.createHash("sha256").update(input.data).digest("hex"),
+      created_at: new Date().toISOString(),
+    };
+    const target = sessionDir(sessionId);
+    fs.mkdirSync(target, { recursive: true });
+    fs.writeFileSync(path.join(target, attachment.id + type.ext), input.data);
+    fs.writeFileSync(path.join(target, `${attachment.id}.json`), JSON.stringify(attachment, null, 2), "utf-8");
+    return attachment;
+  }
+
+  function get(sessionId: string, id: string): Attachment | null {
+    if (!ATTACHMENT_ID_RE.test(id) || !SESSION_ID_RE.test(sessionId)) return null;
+    const file = path.join(sessionDir(sessionId), `${id}.json`);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Attachment;
+  }
+
+  function read(attachment: Attachment): Buffer {
+    return fs.readFileSync(path.join(sessionDir(attachment.session_id), attachment.id + extensionFor(attachment.mime)));
+  }
+
+  function list(sessionId: string): Attachment[] {
+    if (!SESSION_ID_RE.test(sessionId)) return [];
+    const target = sessionDir(sessionId);
+    if (!fs.existsSync(target)) return [];
+    return fs
+      .readdirSync(target)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => JSON.parse(fs.readFileSync(path.join(target, name), "utf-8")) as Attachment)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  function removeSession(sessionId: string): void {
+    if (!SESSION_ID_RE.test(sessionId)) return;
+    fs.rmSync(sessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  // data: URL for multimodal provider requests
+  function dataUrl(attachment: Attachment): string {
+    return `data:${attachment.mime};base64,${read(attachment).toString("base64")}`;
+  }
+
+  return { save, get, read, list, removeSession, dataUrl };
+}
+
+export type AttachmentStore = ReturnType<typeof createAttachmentStore>;
@@ -0,0 +1,195 @@
+import path from "node:path";
+import fs from "node:fs";
+import os from "node:os";
+import { spawn } from "node:child_process";
+import { createRequire } from "node:module";
+
+// -----------------------------
+// Workspace typecheck / build verification
+// -----------------------------
+export type CheckStepName = "typecheck" | "build";
+
+export type Diagnostic = {
+  source: "tsc" | "vite";
+  file: string | null; // workspace-relative when the tool reported a location
+  line: number | null;
+  column: number | null;
+  code?: string;
+  message: string;
+};
+
+export type CheckStepResult = {
+  step: CheckStepName;
+  ok: boolean;
+  timed_out: boolean;
+  duration_ms: number;
+  diagnostics: Diagnostic[];
+  output: string; // tail, for failures the parser did not understand
+};
+
+export type CheckResult = { ok: boolean; steps: CheckStepResult[] };
+
+const MAX_DIAGNOSTICS = 50; // per step
+const MAX_CHECK_OUTPUT = 2000; // chars of raw output kept per step
+
+// Only what node and the tools need; keeps API keys and other engine secrets out of the child
+export function sandboxEnv(overrides: NodeJS.ProcessEnv = {}): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { NODE_ENV: "production", CI: "1", NO_COLOR: "1", FORCE_COLOR: "0" };
+  for (const key of ["PATH", "HOME", "TMPDIR", "TEMP", "SYSTEMROOT"]) {
+    if (process.env[key]) env[key] = process.env[key];
+  }
+  return { ...env, ...overrides };
+}
+
+// Script behind a package's CLI, resolved the way node resolves it from root (hoisting included)
+export function resolveBin(root: string, pkg: string, bin: string): string {
+  const manifest = createRequire(path.join(root, "package.json")).resolve(`${pkg}/package.json`);
+  const bins = JSON.parse(fs.readFileSync(manifest, "utf-8")).bin;
+  const rel = typeof bins === "string" ? bins : bins?.[bin];
+  if (!rel) throw new Error(`${pkg} does not provide a ${bin} binary`);
+  return path.join(path.dirname(manifest), rel);
+}
+
+function runNode(script: string, args: string[], cwd: string, timeoutMs: number) {
+  return new Promise<{ code: number | null; output: string; timedOut: boolean }>((resolve) => {
+    let output = "";
+    let timedOut = false;
+    // Own process group so the timeout also stops helpers the tool spawned (esbuild)
+    const detached = process.platform !== "win32";
+    const child = spawn(process.execPath, [script, ...args], { cwd, env: sandboxEnv(), detached, stdio: ["ignore", "pipe", "pipe"] });
+    const append = (chunk: Buffer) => {
+      output += chunk.toString("utf-8");
+      if (output.length > 1_000_000) output = output.slice(-500_000);
+    };
+    child.stdout.on("data", append);
+    child.stderr.on("data", append);
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (detached && child.pid) process.kill(-child.pid, "SIGKILL");
+        else child.kill("SIGKILL");
+      } catch {
+        // already gone
+      }
+    }, timeoutMs);
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      resolve({ code: null, output: output + String(err.message), timedOut });
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ code, output, timedOut });
+    });
+  });
+}
+
+function toRel(root: string, file: string): string {
+  const abs = path.isAbsolute(file) ? file : path.join(root, file);
+  return path.relative(root, abs).split(path.sep).join("/");
+}
+
+// tsc --pretty false: "src/App.tsx(12,5): error TS2322: Type ..." with indented continuation lines
+export function parseTscOutput(output: string, root: string): Diagnostic[] {
+  const out: Diagnostic[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const m = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/.exec(line);
+    if (m) {
+      out.push({ source: "tsc", file: toRel(root, m[1]), line: Number(m[2]), column: Number(m[3]), code: m[4], message: m[5] });
+    } else if (/^error (TS\d+): (.*)$/.test(line)) {
+      const [, code, message] = /^error (TS\d+): (.*)$/.exec(line)!;
+      out.push({ source: "tsc", file: null, line: null, column: null, code, message });
+    } else if (/^\s+\S/.test(line) && out.length) {
+      out[out.length - 1].message += "\n" + line.trim();
+    }
+  }
+  return out;
+}
+
+// Vite/esbuild/rollup errors: "/abs/src/App.tsx:3:10: ERROR: Expected ..." or "file: /abs/src/App.tsx:3:10"
+export function parseViteOutput(output: string, root: string): Diagnostic[] {
+  const out: Diagnostic[] = [];
+  const seen = new Set<string>();
+  const lines = output.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    const m = /((?:[A-Za-z]:)?[^\s:()"]+\.(?:[cm]?[jt]sx?|css|scss|html|json|svg)):(\d+):(\d+)(?::\s*(?:ERROR:\s*)?(.*))?/.exec(line);
+    if (!m) return;
+    const file = toRel(root, m[1]);
+    if (file.startsWith("..") || file.includes("node_modules/")) return;
+    // The same location is usually printed twice (esbuild line, then "file: ..."); keep the first
+    const key = `${file}:${m[2]}:${m[3]}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    // "file: <path>:l:c" carries no message; it is on the next non-empty line
+    const message = m[4]?.trim() || lines.slice(i + 1).find((l) => l.trim())?.trim() || "Build error";
+    out.push({ source: "vite", file, line: Number(m[2]), column: Number(m[3]), message });
+  });
+  return out;
+}
+
+// One-line reason for a failure without a location, e.g. an unresolved import
+function summarizeFailure(output: string): string {
+  const lines = output.split(/\r?\n/);
+  const start = lines.findIndex((l) => /error during build:/i.test(l));
+  const relevant = start >= 0 ? lines.slice(start + 1) : lines;
+  return relevant.find((l) => l.trim() && !/^\s+at /.test(l))?.trim() ?? "";
+}
+
+// Runs the requested steps one after another inside root (a workspace with typescript and vite installed).
+// The build writes to a temporary directory, so the workspace itself is never touched.
+export function createChecker(opts: { root: string; timeoutMs: () => number }) {
+  let queue: Promise<unknown> = Promise.resolve(); // one check at a time
+
+  async function runStep(step: CheckStepName): Promise<CheckStepResult> {
+    const started = Date.now();
+    let outDir: string | null = null;
+    let result: { code: number | null; output: string; timedOut: boolean };
+    try {
+      if (step === "typecheck") {
+        result = await runNode(resolveBin(opts.root, "typescript", "tsc"), ["--noEmit", "--pretty", "false", "-p", "."], opts.root, opts.timeoutMs());
+      } else {
+        outDir = fs.mkdtempSync(path.join(os.tmpdir(), "lov-check-"));
+        const args = ["build", "--outDir", outDir, "--emptyOutDir", "--logLevel", "error"];
+        result = await runNode(resolveBin(opts.root, "vite", "vite"), args, opts.root, opts.timeoutMs());
+      }
+    } catch (e: any) {
+      result = { code: null, output: String(e?.message || e), timedOut: false };
+    } finally {
+      if (outDir) fs.rmSync(outDir, { recursive: true, force: true });
+    }
+    const diagnostics = step === "typecheck" ? parseTscOutput(result.output, opts.root) : parseViteOutput(result.output, opts.root);
+    const ok = result.code === 0 && !result.timedOut;
+    if (!ok && !diagnostics.length) {
+      diagnostics.push({
+        source: step === "typecheck" ? "tsc" : "vite",
+        file: null,
+        line: null,
+        column: null,
+        message: result.timedOut ? `Timed out after ${opts.timeoutMs()} ms` : summarizeFailure(result.output) || `Exited with code ${result.code}`,
+      });
+    }
+    return {
+      step,
+      ok,
+      timed_out: result.timedOut,
+      duration_ms: Date.now() - started,
+      diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+      output: ok ? "" : result.output.slice(-MAX_CHECK_OUTPUT),
+    };
+  }
+
+  async function runNow(steps: CheckStepName[]): Promise<CheckResult> {
+    const results: CheckStepResult[] = [];
+    for (const step of steps) results.push(await runStep(step));
+    return { ok: results.every((r) => r.ok), steps: results };
+  }
+
+  function run(steps: CheckStepName[] = ["typecheck", "build"]): Promise<CheckResult> {
+    const next = queue.then(() => runNow(steps));
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return { run };
+}
+
+export type Checker = ReturnType<typeof createChecker>;
@@ -0,0 +1,179 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import { unifiedDiff } from "./diff.js";
+
+// -----------------------------
+// Checkpoint types
+// -----------------------------
+// existed=false means the file was created during the turn (restoring deletes it)
+export type CheckpointFile = { path: string; existed: boolean };
+
+export type Checkpoint = {
+  id: string;
+  seq: number;
+  label: string;
+  session_id?: string;
+  turn?: number;
+  created_at: string;
+  restored_at?: string;
+  files: CheckpointFile[];
+};
+
+export type CheckpointFileDiff = {
+  path: string;
+  status: "modified" | "added" | "deleted" | "unchanged";
+  diff: string;
+};
+
+const CHECKPOINT_ID_RE = /^[a-f0-9]{16}$/;
+
+function isBinary(buf: Buffer): boolean {
+  return buf.subarray(0, 8000).includes(0);
+}
+
+// Snapshots live under dir as <id>.json (manifest) and <id>/<workspace-relative path>
+export function createCheckpointStore(dir: string, root: string) {
+  function manifestFile(id: string): string {
+    if (!CHECKPOINT_ID_RE.test(id)) throw new Error("Invalid checkpoint id");
+    return path.join(dir, `${id}.json`);
+  }
+
+  function save(cp: Checkpoint): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(manifestFile(cp.id), JSON.stringify(cp, null, 2), "utf-8");
+  }
+
+  function list(filter: { sessionId?: string } = {}): Checkpoint[] {
+    if (!fs.existsSync(dir)) return [];
+    const all: Checkpoint[] = [];
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        all.push(JSON.parse(fs.readFileSync(path.join(dir, name), "utf-8")));
+      } catch {
+        // ignore unreadable manifests
+      }
+    }
+    return all
+      .filter((cp) => !filter.sessionId || cp.session_id === filter.sessionId)
+      .sort((a, b) => b.seq - a.seq);
+  }
+
+  function get(id: string): Checkpoint | null {
+    if (!CHECKPOINT_ID_RE.test(id)) return null;
+    const file = manifestFile(id);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Checkpoint;
+  }
+
+  function create(meta: { label: string; sessionId?: string; turn?: number }): Checkpoint {
+    const seq = list().reduce((max, cp) => Math.max(max, cp.seq), 0) + 1;
+    const cp: Checkpoint = {
+      id: crypto.randomBytes(8).toString("hex"),
+      seq,
+      label: meta.label,
+      session_id: meta.sessionId,
+      turn: meta.turn,
+      created_at: new Date().toISOString(),
+      files: [],
+    };
+    save(cp);
+    return cp;
+  }
+
+  // Records the pre-turn state of a file; only the first capture per file counts
+  function capture(cp: Checkpoint, relPath: string): void {
+    const abs = path.join(root, relPath);
+    const rel = path.relative(root, abs).split(path.sep).join("/");
+    if (cp.files.some((f) => f.path === rel)) return;
+    const existed = fs.existsSync(abs) && fs.statSync(abs).isFile();
+    if (existed) {
+      const snap = path.join(dir, cp.id, rel);
+      fs.mkdirSync(path.dirname(snap), { recursive: true });
+      fs.copyFileSync(abs, snap);
+    }
+    cp.files.push({ path: rel, existed });
+    save(cp);
+  }
+
+  // Lazily creates the checkpoint on the first capture, so turns without edits leave nothing behind
+  function recorder(meta: { label: string; sessionId?: string; turn?: number }) {
+    let cp: Checkpoint | null = null;
+    return {
+      capture(rel: string) {
+        cp ??= create(meta);
+        capture(cp, rel);
+      },
+      get id() {
+        return cp?.id ?? null;
+      },
+    };
+  }
+
+  function diff(id: string): CheckpointFileDiff[] | null {
+    const cp = get(id);
+    if (!cp) return null;
+    return cp.files.map((f) => {
+      const abs = path.join(root, f.path);
+      const before = f.existed ? fs.readFileSync(path.join(dir, cp.id, f.path)) : null;
+      const after = fs.existsSync(abs) ? fs.readFileSync(abs) : null;
+      let status: CheckpointFileDiff["status"];
+      if (!before && !after) status = "unchanged";
+      else if (!before) status = "added";
+      else if (!after) status = "deleted";
+      else status = before.equals(after) ? "unchanged" : "modified";
+      if (status === "unchanged") return { path: f.path, status, diff: "" };
+      if ((before && isBinary(before)) || (after && isBinary(after))) {
+        return { path: f.path, status, diff: "Binary file changed\n" };
+      }
+      const text = unifiedDiff(
+        before?.toString("utf-8") ?? "",
+        after?.toString("utf-8") ?? "",
+        before ? `a/${f.path}` : "/dev/null",
+        after ? `b/${f.path}` : "/dev/null",
+      );
+      return { path: f.path, status, diff: text };
+    });
+  }
+
+  function restoreOne(cp: Checkpoint): string[] {
+    const touched: string[] = [];
+    for (const f of cp.files) {
+      const abs = path.join(root, f.path);
+      if (f.existed) {
+        fs.mkdirSync(path.dirname(abs), { recursive: true });
+        fs.copyFileSync(path.join(dir, cp.id, f.path), abs);
+      } else if (fs.existsSync(abs)) {
+        fs.unlinkSync(abs);
+      }
+      touched.push(f.path);
+    }
+    cp.restored_at = new Date().toISOString();
+    save(cp);
+    return touched;
+  }
+
+  // Returns the workspace to its state before the checkpoint's turn by undoing it and every
+  // later checkpoint, newest first. The current state is checkpointed first so a restore can be undone too.
+  function restore(id: string): { restored: string[]; safety_checkpoint: string | null } | null {
+    const target = get(id);
+    if (!target) return null;
+    const newer = list().filter((cp) => cp.seq >= target.seq);
+    const affected = [...new Set(newer.flatMap((cp) => cp.files.map((f) => f.path)))];
+
+    const safety = recorder({ label: `Before restoring checkpoint ${target.seq}`, sessionId: target.session_id });
+    for (const rel of affected) safety.capture(rel);
+
+    const restored = new Set<string>();
+    for (const cp of newer) {
+      for (const rel of restoreOne(cp)) restored.add(rel);
+    }
+    return { restored: [...restored], safety_checkpoint: safety.id };
+  }
+
+  return { list, get, recorder, diff, restore };
+}
+
+export type CheckpointStore = ReturnType<typeof createCheckpointStore>;
+export type CheckpointRecorder = ReturnType<CheckpointStore["recorder"]>;
@@ -0,0 +1,209 @@
+import path from "node:path";
+import fs from "node:fs";
+import { z } from "zod";
+
+// -----------------------------
+// Engine runtime configuration
+// -----------------------------
+// Precedence per key: env override > config file > default. The file is re-read whenever it changes.
+export const EngineConfigSchema = z
+  .object({
+    enable_download: z.boolean(),
+    enable_deps: z.boolean(),
+    enable_delete: z.boolean(),
+    review_mode_default: z.boolean(),
+    allow_listed_domains: z.array(z.string().min(1)),
+    max_download_bytes: z.number().int().positive(),
+    max_attachment_bytes: z.number().int().positive(), // per uploaded chat image
+    max_write_bytes: z.number().int().positive(), // lov-write content size
+    max_write_changed_lines: z.number().int().positive(), // lov-write on an existing file
+    max_agent_steps: z.number().int().positive(), // completion calls per /chat request
+    max_tool_calls: z.number().int().positive(), // tool dispatches per /chat request
+    check_timeout_ms: z.number().int().positive(), // per lov-check step (typecheck, build)
+    auto_check: z.boolean(), // run lov-check after every turn that changed files
+    preview_autostart: z.boolean(), // start the active project's dev server at startup and on project switch
+    git_autocommit: z.boolean(), // commit every turn that changed files (projects with an initialized repo only)
+    context_budget_tokens: z.number().int().positive(), // estimated prompt size (messages and tool schemas) before older turns are summarized
+    context_keep_turns: z.number().int().min(1), // recent turns always sent in full
+    project_context_max_chars: z.number().int().min(0), // size of the project overview sent after the system prompt; 0 turns it off
+    search_max_file_bytes: z.number().int().positive(), // larger files are left out of the search index
+    // USD per million prompt (input) and completion (output) tokens, by model name or prefix
+    model_prices: z.record(
+      z.string().min(1),
+      z.object({ input_per_mtok: z.number().nonnegative(), output_per_mtok: z.number().nonnegative() }).strict(),
+    ),
+    port: z.number().int().min(1).max(65535), // read once at startup
+  })
+  .strict();
+
+export type EngineConfig = z.infer<typeof EngineConfigSchema>;
+export type ConfigKey = keyof EngineConfig;
+export type ConfigSource = "default" | "file" | "env";
+
+export const CONFIG_DEFAULTS: EngineConfig = {
+  enable_download: false,
+  enable_deps: false,
+  enable_delete: false,
+  review_mode_default: false,
+  allow_listed_domains: ["raw.githubusercontent.com", "images.unsplash.com"],
+  max_download_bytes: 5 * 1024 * 1024,
+  max_attachment_bytes: 5 * 1024 * 1024,
+  max_write_bytes: 200 * 1024,
+  max_write_changed_lines: 400,
+  max_agent_steps: 8,
+  max_tool_calls: 24,
+  check_timeout_ms: 120_000,
+  auto_check: false,
+  preview_autostart: true,
+  git_autocommit: false,
+  context_budget_tokens: 100_000,
+  context_keep_turns: 4,
+  project_context_max_chars: 12_000,
+  search_max_file_bytes: 1024 * 1024,
+  model_prices: {
+    "gpt-4.1": { input_per_mtok: 2, output_per_mtok: 8 },
+    "gpt-4.1-mini": { input_per_mtok: 0.4, output_per_mtok: 1.6 },
+    "gpt-4.1-nano": { input_per_mtok: 0.1, output_per_mtok: 0.4 },
+    "gpt-4o": { input_per_mtok: 2.5, output_per_mtok: 10 },
+    "gpt-4o-mini": { input_per_mtok: 0.15, output_per_mtok: 0.6 },
+    mock: { input_per_mtok: 0, output_per_mtok: 0 },
+  },
+  port: 8787,
+};
+
+// Keys that only take effect after an engine restart
+export const RESTART_REQUIRED: ConfigKey[] = ["port"];
+
+const CONFIG_KEYS = Object.keys(CONFIG_DEFAULTS) as ConfigKey[];
+
+// enable_delete -> ENGINE_ENABLE_DELETE; arrays are comma-separated, objects JSON
+export function envName(key: ConfigKey): string {
+  return `ENGINE_${key.toUpperCase()}`;
+}
+
+function parseEnvValue(key: ConfigKey, raw: string): unknown {
+  const fallback = CONFIG_DEFAULTS[key];
+  if (typeof fallback === "boolean") {
+    if (/^(1|true|yes|on)$/i.test(raw.trim())) return true;
+    if (/^(0|false|no|off)$/i.test(raw.trim())) return false;
+    return raw;
+  }
+  if (typeof fallback === "number") return raw.trim() === "" ? raw : Number(raw);
+  if (Array.isArray(fallback)) return raw.split(",").map((s) => s.trim()).filter(Boolean);
+  if (typeof fallback === "object") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+export type ConfigSnapshot = {
+  values: EngineConfig;
+  sources: Record<ConfigKey, ConfigSource>;
+  file: string;
+  loaded_at: string;
+  // Set when the last reload failed; values are then the last good ones
+  error?: string;
+};
+
+function describeIssues(err: z.ZodError): string {
+  return err.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+}
+
+export function createConfigStore(opts: { file: string; env?: NodeJS.ProcessEnv }) {
+  const env = opts.env ?? process.env;
+  let snapshot: ConfigSnapshot;
+
+  function readFileValues(): Partial<EngineConfig> {
+    if (!fs.existsSync(opts.file)) return {};
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(opts.file, "utf-8"));
+    } catch (e: any) {
+      throw new Error(`Invalid ${path.basename(opts.file)}: ${e?.message || e}`);
+    }
+    const parsed = EngineConfigSchema.partial().safeParse(raw);
+    if (!parsed.success) throw new Error(`Invalid ${path.basename(opts.file)}: ${describeIssues(parsed.error)}`);
+    return parsed.data;
+  }
+
+  function build(fileValues: Partial<EngineConfig>): Pick<ConfigSnapshot, "values" | "sources"> {
+    const merged: Record<string, unknown> = {};
+    const sources = {} as Record<ConfigKey, ConfigSource>;
+    for (const key of CONFIG_KEYS) {
+      const fromEnv = env[envName(key)];
+      if (fromEnv !== undefined) {
+        merged[key] = parseEnvValue(key, fromEnv);
+        sources[key] = "env";
+      } else if (fileValues[key] !== undefined) {
+        merged[key] = fileValues[key];
+        sources[key] = "file";
+      } else {
+        merged[key] = CONFIG_DEFAULTS[key];
+        sources[key] = "default";
+      }
+    }
+    const parsed = EngineConfigSchema.safeParse(merged);
+    if (!parsed.success) throw new Error(`Invalid environment override: ${describeIssues(parsed.error)}`);
+    return { values: parsed.data, sources };
+  }
+
+  function load(): ConfigSnapshot {
+    return { ...build(readFileValues()), file: opts.file, loaded_at: new Date().toISOString() };
+  }
+
+  // Startup fails loudly on a bad config; later reloads keep the last good values instead
+  snapshot = load();
+
+  function get(): EngineConfig {
+    return snapshot.values;
+  }
+
+  function describe(): ConfigSnapshot {
+    return snapshot;
+  }
+
+  function reload(): ConfigSnapshot {
+    try {
+      snapshot = load();
+    } catch (e: any) {
+      snapshot = { ...snapshot, error: String(e?.message || e) };
+    }
+    return snapshot;
+  }
+
+  // Merges patch into the config file (validated first), then reloads.
+  // Keys overridden by env stay at their env value; the caller can tell from sources.
+  function update(patch: Partial<EngineConfig>): ConfigSnapshot {
+    const parsed = EngineConfigSchema.partial().safeParse(patch);
+    if (!parsed.success) throw new Error(describeIssues(parsed.error));
+    const next = { ...readFileValues(), ...parsed.data };
+    build(next); // surfaces invalid env overrides before anything is written
+    fs.mkdirSync(path.dirname(opts.file), { recursive: true });
+    const tmp = `${opts.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(next, null, 2) + "\n", "utf-8");
+    fs.renameSync(tmp, opts.file);
+    const result = reload();
+    if (result.error) throw new Error(result.error);
+    return result;
+  }
+
+  // Polls the file (works when it does not exist yet and across editors that replace it)
+  function watch(intervalMs = 1000): () => void {
+    const listener = (curr: fs.Stats, prev: fs.Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      const result = reload();
+      if (result.error) console.warn("[engine] config reload failed:", result.error);
+      else console.log("[engine] config reloaded from", opts.file);
+    };
+    fs.watchFile(opts.file, { interval: intervalMs }, listener);
+    return () => fs.unwatchFile(opts.file, listener);
+  }
+
+  return { get, describe, reload, update, watch };
+}
+
+export type ConfigStore = ReturnType<typeof createConfigStore>;
@@ -0,0 +1,166 @@
+import { contentText, type Completion, type LLMProvider, type ProviderMessage } from "./providers.js";
+
+// -----------------------------
+// Context window management
+// -----------------------------
+// Older turns are folded into a running summary stored with the session; the summary plus the
+// pinned messages and the most recent turns are what the model sees.
+export type ContextSummary = {
+  content: string;
+  message_count: number; // the summary stands for messages[0, message_count) of the transcript
+  updated_at: string;
+};
+
+export type ContextInfo = {
+  estimated_tokens: number;
+  budget_tokens: number;
+  summarized: boolean; // this turn folded more messages into the summary
+  summarized_messages: number; // how many, this turn
+  summary_covers: number; // messages the summary stands for in total
+};
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4; // role and separators
+const IMAGE_TOKENS = 800; // per attached image, roughly what a detailed screenshot costs
+const SUMMARY_RESERVE_TOKENS = 800; // assumed size of a summary when planning what to cut
+const SUMMARIZER_MESSAGE_CHARS = 1500; // each message is cut to this for the summarizer
+const SUMMARIZER_INPUT_CHARS = 60_000;
+
+export function estimateTextTokens(text: string | null | undefined): number {
+  return Math.ceil((text?.length ?? 0) / CHARS_PER_TOKEN);
+}
+
+function imageCount(m: ProviderMessage): number {
+  if (m.role !== "user") return 0;
+  if (Array.isArray(m.content)) return m.content.filter((part) => part.type === "image_url").length;
+  return m.attachments?.length ?? 0;
+}
+
+// Rough count for what the messages cost in the prompt (content, images, tool call names and arguments)
+export function estimateMessagesTokens(messages: ProviderMessage[]): number {
+  return messages.reduce((sum, m) => {
+    const calls = m.role === "assistant" ? (m.tool_calls ?? []).map((c) => c.function.name + c.function.arguments).join("") : "";
+    return sum + MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(contentText(m.content)) + estimateTextTokens(calls) + imageCount(m) * IMAGE_TOKENS;
+  }, 0);
+}
+
+// Only messages that stand on their own can be pinned: a tool result or an assistant
+// tool call would be sent without its counterpart
+export function isPinnable(message: ProviderMessage | undefined): boolean {
+  if (!message) return false;
+  if (message.role === "user") return true;
+  return message.role === "assistant" && !message.tool_calls?.length;
+}
+
+function summaryMessage(summary: ContextSummary): ProviderMessage {
+  return {
+    role: "system",
+    content: `Summary of the earlier conversation (the ${summary.message_count} oldest messages were condensed):\n${summary.content}`,
+  };
+}
+
+// System prompt, project overview, summary, pinned messages the summary replaced, then everything after it
+export function buildContext(opts: {
+  systemPrompt: string;
+  overview: string | null;
+  messages: ProviderMessage[];
+  summary: ContextSummary | null;
+  pinned: number[];
+}): ProviderMessage[] {
+  const covered = Math.min(opts.summary?.message_count ?? 0, opts.messages.length);
+  const pinned = [...new Set(opts.pinned)].filter((i) => i < covered && isPinnable(opts.messages[i])).sort((a, b) => a - b);
+  return [
+    { role: "system", content: opts.systemPrompt },
+    ...(opts.overview ? [{ role: "system" as const, content: opts.overview }] : []),
+    ...(opts.summary && covered ? [summaryMessage(opts.summary)] : []),
+    ...pinned.map((i) => opts.messages[i]),
+    ...opts.messages.slice(covered),
+  ];
+}
+
+// Where a turn starts: its user message, or the engine notes right before it
+function turnStarts(messages: ProviderMessage[]): number[] {
+  const starts: number[] = [];
+  messages.forEach((m, i) => {
+    if (m.role !== "user") return;
+    let start = i;
+    while (start > 0 && messages[start - 1].role === "system") start--;
+    starts.push(start);
+  });
+  return starts;
+}
+
+// How far the summary has to reach so the rest fits in budget: keeps up to keepTurns recent turns,
+// fewer if those alone are too big (the current turn always stays). null when nothing can be folded.
+export function planCompaction(opts: {
+  messages: ProviderMessage[];
+  summary: ContextSummary | null;
+  fixedTokens: number; // system prompt, project overview, tool schemas and pinned messages
+  budget: number;
+  keepTurns: number;
+}): number | null {
+  const covered = opts.summary?.message_count ?? 0;
+  const starts = turnStarts(opts.messages).filter((s) => s > covered);
+  let cut: number | null = null;
+  for (let keep = Math.min(opts.keepTurns, starts.length); keep >= 1; keep--) {
+    const candidate = starts[starts.length - keep];
+    cut = candidate;
+    const rest = estimateMessagesTokens(opts.messages.slice(candidate));
+    if (opts.fixedTokens + SUMMARY_RESERVE_TOKENS + rest <= opts.budget) break;
+  }
+  return cut;
+}
+
+const SUMMARIZER_PROMPT = [
+  "You maintain the running summary of a conversation between a user and an assistant that edits a web app's code with tools.",
+  "Merge the previous summary (if any) with the new messages into one updated summary.",
+  "Keep: what the user wants and any requirements or preferences they stated, decisions made, files created, changed or deleted and why, errors that are still open, and anything the assistant promised to do next.",
+  "Drop greetings, tool output details and anything superseded. Use short bullet points, at most about 300 words. Reply with the summary only.",
+].join(" ");
+
+function transcriptForSummary(messages: ProviderMessage[]): string {
+  const lines = messages.map((m) => {
+    let text = contentText(m.content);
+    if (m.role === "user" && m.attachments?.length) {
+      text += m.attachments.map((a) => ` [attached image ${a.name}]`).join("");
+    }
+    if (m.role === "assistant" && m.tool_calls?.length) {
+      text += (text ? "\n" : "") + m.tool_calls.map((c) => `[calls ${c.function.name} ${c.function.arguments}]`).join("\n");
+    }
+    if (text.length > SUMMARIZER_MESSAGE_CHARS) text = text.slice(0, SUMMARIZER_MESSAGE_CHARS) + " …";
+    return `[${m.role}] ${text}`;
+  });
+  return lines.join("\n\n").slice(-SUMMARIZER_INPUT_CHARS);
+}
+
+// Used when the summarizer call fails: the user requests and final answers, newest kept when it gets long
+function extractiveSummary(previous: string | null, messages: ProviderMessage[]): string {
+  const points = messages
+    .filter((m) => (m.role === "user" || (m.role === "assistant" && !m.tool_calls?.length)) && contentText(m.content).trim())
+    .map((m) => `- ${m.role === "user" ? "User" : "Assistant"}: ${contentText(m.content).trim().replace(/\s+/g, " ").slice(0, 200)}`);
+  return [previous, ...points].filter(Boolean).join("\n").slice(-SUMMARY_RESERVE_TOKENS * CHARS_PER_TOKEN);
+}
+
+// Folds messages into the previous summary with one completion call
+export async function summarizeMessages(
+  provider: LLMProvider,
+  previous: string | null,
+  messages: ProviderMessage[],
+): Promise<{ content: string; completion: Completion | null; latencyMs: number }> {
+  const started = Date.now();
+  try {
+    const completion = await provider.complete({
+      messages: [
+        { role: "system", content: SUMMARIZER_PROMPT },
+        { role: "user", content: `Previous summary:\n${previous || "(none)"}\n\nNew messages:\n${transcriptForSummary(messages)}` },
+      ],
+      tools: [],
+      temperature: 0,
+    });
+    const content = completion.message.content?.trim();
+    if (content) return { content, completion, latencyMs: Date.now() - started };
+  } catch (e: any) {
+    console.warn("[engine] summarization failed, using an extractive summary:", e?.message || e);
+  }
+  return { content: extractiveSummary(previous, messages), completion: null, latencyMs: Date.now() - started };
+}
@@ -0,0 +1,144 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import { hashContent } from "./proposals.js";
+
+// -----------------------------
+// Deletion types
+// -----------------------------
+// pending: lov-delete asked, waiting for the user; deleted: file moved to the trash;
+// denied: the user declined; restored: moved back out of the trash; conflict: file changed before confirmation
+export type DeletionStatus = "pending" | "denied" | "deleted" | "restored" | "conflict";
+
+export type Deletion = {
+  id: string; // also the confirmation token handed to the UI
+  file: string;
+  size: number;
+  session_id?: string;
+  status: DeletionStatus;
+  // sha256 of the file when the deletion was requested
+  base_hash: string | null;
+  created_at: string;
+  decided_at?: string;
+  restored_at?: string;
+  note?: string;
+};
+
+const DELETION_ID_RE = /^[a-f0-9]{16}$/;
+
+// Requests live under dir as <id>.json; deleted files are moved to dir/trash/<id>/<workspace-relative path>
+export function createDeletionStore(dir: string, root: string) {
+  function fileFor(id: string): string {
+    if (!DELETION_ID_RE.test(id)) throw new Error("Invalid deletion id");
+    return path.join(dir, `${id}.json`);
+  }
+
+  function trashPath(d: Deletion): string {
+    return path.join(dir, "trash", d.id, d.file);
+  }
+
+  function save(d: Deletion): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(fileFor(d.id), JSON.stringify(d, null, 2), "utf-8");
+  }
+
+  function get(id: string): Deletion | null {
+    if (!DELETION_ID_RE.test(id)) return null;
+    const file = fileFor(id);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Deletion;
+  }
+
+  function list(filter: { sessionId?: string; status?: DeletionStatus } = {}): Deletion[] {
+    if (!fs.existsSync(dir)) return [];
+    const all: Deletion[] = [];
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        all.push(JSON.parse(fs.readFileSync(path.join(dir, name), "utf-8")));
+      } catch {
+        // ignore unreadable requests
+      }
+    }
+    return all
+      .filter((d) => !filter.sessionId || d.session_id === filter.sessionId)
+      .filter((d) => !filter.status || d.status === filter.status)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  // Reuses an open request for the same file so a retrying model does not stack up prompts; its hash and
+  // size are refreshed, since the file may have been edited since and the user confirms what is there now
+  function request(file: string, meta: { sessionId?: string }): Deletion {
+    const data = fs.readFileSync(path.join(root, file));
+    const open = list({ sessionId: meta.sessionId, status: "pending" }).find((d) => d.file === file);
+    if (open) {
+      open.size = data.byteLength;
+      open.base_hash = hashContent(data);
+      save(open);
+      return open;
+    }
+    const deletion: Deletion = {
+      id: crypto.randomBytes(8).toString("hex"),
+      file,
+      size: data.byteLength,
+      session_id: meta.sessionId,
+      status: "pending",
+      base_hash: hashContent(data),
+      created_at: new Date().toISOString(),
+    };
+    save(deletion);
+    return deletion;
+  }
+
+  // Moves the file into the trash unless it changed since the request was made
+  function confirm(id: string): Deletion | null {
+    const d = get(id);
+    if (!d) return null;
+    if (d.status !== "pending") throw new Error(`Deletion is already ${d.status}`);
+    const abs = path.join(root, d.file);
+    const current = fs.existsSync(abs) && fs.statSync(abs).isFile() ? hashContent(fs.readFileSync(abs)) : null;
+    if (current !== d.base_hash) {
+      d.status = "conflict";
+      d.note = current === null ? "File no longer exists" : "File changed since the deletion was requested";
+    } else {
+      const dest = trashPath(d);
+      fs.mkdirSync(path.dirname(dest), { recursive: true });
+      fs.renameSync(abs, dest);
+      d.status = "deleted";
+    }
+    d.decided_at = new Date().toISOString();
+    save(d);
+    return d;
+  }
+
+  // Conflicted requests can still be denied to clear them
+  function deny(id: string): Deletion | null {
+    const d = get(id);
+    if (!d) return null;
+    if (d.status !== "pending" && d.status !== "conflict") throw new Error(`Deletion is already ${d.status}`);
+    d.status = "denied";
+    d.decided_at = new Date().toISOString();
+    save(d);
+    return d;
+  }
+
+  // Moves a trashed file back; refuses to overwrite a file created at the same path since
+  function restore(id: string): Deletion | null {
+    const d = get(id);
+    if (!d) return null;
+    if (d.status !== "deleted") throw new Error(`Deletion is ${d.status}, nothing to restore`);
+    const abs = path.join(root, d.file);
+    if (fs.existsSync(abs)) throw new Error("A file already exists at that path");
+    fs.mkdirSync(path.dirname(abs), { recursive: true });
+    fs.renameSync(trashPath(d), abs);
+    fs.rmSync(path.join(dir, "trash", d.id), { recursive: true, force: true });
+    d.status = "restored";
+    d.restored_at = new Date().toISOString();
+    save(d);
+    return d;
+  }
+
+  return { get, list, request, confirm, deny, restore };
+}
+
+export type DeletionStore = ReturnType<typeof createDeletionStore>;
@@ -0,0 +1,262 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import { spawn } from "node:child_process";
+import { sandboxEnv } from "./check.js";
+
+// -----------------------------
+// Installers
+// -----------------------------
+export type InstallResult = { ok: boolean; output: string };
+
+// Brings node_modules and the lockfile in line with package.json, run from cwd.
+// workspace names the npm workspace when cwd is a monorepo root; null installs cwd's own package.
+export type Installer = {
+  name: string;
+  install(opts: { cwd: string; workspace: string | null }): Promise<InstallResult>;
+};
+
+const MAX_INSTALL_OUTPUT = 4000; // chars of installer output kept per change (tail)
+
+// npm's own settings and proxies pass through; other engine env (API keys) does not. NODE_ENV=production
+// would make npm skip devDependencies.
+function installerEnv(): NodeJS.ProcessEnv {
+  const npmEnv = Object.entries(process.env).filter(([key]) => /^(npm_config_|https?_proxy$|no_proxy$)/i.test(key));
+  return sandboxEnv({ ...Object.fromEntries(npmEnv), NODE_ENV: "development" });
+}
+
+function runCommand(cmd: string, args: string[], cwd: string, timeoutMs: number): Promise<InstallResult> {
+  return new Promise((resolve) => {
+    let output = "";
+    // Own process group so the timeout also stops the scripts and helpers npm spawned
+    const detached = process.platform !== "win32";
+    const child = spawn(cmd, args, { cwd, env: installerEnv(), detached, shell: !detached, stdio: ["ignore", "pipe", "pipe"] });
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString("utf-8")).slice(-MAX_INSTALL_OUTPUT);
+    };
+    child.stdout.on("data", append);
+    child.stderr.on("data", append);
+    const timer = setTimeout(() => {
+      output += `\nTimed out after ${timeoutMs} ms`;
+      try {
+        if (detached && child.pid) process.kill(-child.pid, "SIGKILL");
+        else child.kill("SIGKILL");
+      } catch {
+        // already gone
+      }
+    }, timeoutMs);
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      resolve({ ok: false, output: output + String(err.message) });
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ ok: code === 0, output });
+    });
+  });
+}
+
+// npm with lifecycle scripts disabled. registry points at a local mirror (e.g. verdaccio);
+// cacheDir installs offline from a pre-filled npm tarball cache.
+export function createNpmInstaller(opts: { registry?: string; cacheDir?: string; timeoutMs: number }): Installer {
+  return {
+    name: opts.cacheDir ? "npm-offline" : "npm",
+    install({ cwd, workspace }) {
+      const args = ["install", ...(workspace ? ["--workspace", workspace] : []), "--no-audit", "--no-fund", "--ignore-scripts"];
+      if (opts.registry) args.push("--registry", opts.registry);
+      if (opts.cacheDir) args.push("--offline", "--cache", opts.cacheDir);
+      return runCommand("npm", args, cwd, opts.timeoutMs);
+    },
+  };
+}
+
+// Only edits package.json; for environments without any registry access
+export function createNoopInstaller(): Installer {
+  return {
+    name: "none",
+    async install() {
+      return { ok: true, output: "Install skipped (installer: none)" };
+    },
+  };
+}
+
+// -----------------------------
+// Dependency changes
+// -----------------------------
+export type DependencyChangeStatus = "applied" | "rolled_back" | "failed";
+
+export type DependencyChange = {
+  id: string;
+  action: "add" | "remove";
+  packages: string[];
+  dev: boolean;
+  workspace: string;
+  session_id?: string;
+  installer: string;
+  status: DependencyChangeStatus;
+  // name -> version before and after, for every package the change touched (null: absent)
+  before: Record<string, string | null>;
+  after: Record<string, string | null>;
+  output: string;
+  note?: string;
+  created_at: string;
+};
+
+type Manifest = { dependencies?: Record<string, string>; devDependencies?: Record<string, string>; [key: string]: unknown };
+
+// dir holds the package.json to edit; installRoot is where npm runs and the lockfile lives
+// (the monorepo root for an npm workspace, otherwise dir itself)
+export type DependencyTarget = { name: string; dir: string; installRoot: string; workspace: string | null };
+
+const CHANGE_ID_RE = /^[a-f0-9]{16}$/;
+
+// "react@18.3.1" / "@scope/pkg@1.0.0" -> name and version
+export function splitSpec(spec: string): { name: string; version: string } {
+  const at = spec.lastIndexOf("@");
+  return at > 0 ? { name: spec.slice(0, at), version: spec.slice(at + 1) } : { name: spec, version: "" };
+}
+
+function sortKeys(deps: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(deps).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Edits <target>/package.json, runs the installer and records the result under dir.
+// On a failed install package.json and the lockfile are put back byte for byte, and the installer runs
+// again from them so node_modules does not stay half-installed.
+export function createDependencyManager(dir: string, opts: { installer: Installer }) {
+  let queue: Promise<unknown> = Promise.resolve(); // one install at a time
+
+  function save(change: DependencyChange): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${change.id}.json`), JSON.stringify(change, null, 2), "utf-8");
+  }
+
+  function get(id: string): DependencyChange | null {
+    if (!CHANGE_ID_RE.test(id)) return null;
+    const file = path.join(dir, `${id}.json`);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as DependencyChange;
+  }
+
+  function list(filter: { sessionId?: string } = {}): DependencyChange[] {
+    if (!fs.existsSync(dir)) return [];
+    const all: DependencyChange[] = [];
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        all.push(JSON.parse(fs.readFileSync(path.join(dir, name), "utf-8")));
+      } catch {
+        // ignore unreadable records
+      }
+    }
+    return all
+      .filter((c) => !filter.sessionId || c.session_id === filter.sessionId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  // add: pinned specs go into dependencies (or devDependencies with dev), moving them out of the other section.
+  // remove: names are dropped from the given section, or from both when dev is not specified.
+  function edit(manifest: Manifest, action: "add" | "remove", packages: string[], dev: boolean | undefined) {
+    const deps = { ...(manifest.dependencies ?? {}) };
+    const devDeps = { ...(manifest.devDependencies ?? {}) };
+    const before: Record<string, string | null> = {};
+    const after: Record<string, string | null> = {};
+    const missing: string[] = [];
+    for (const spec of packages) {
+      const { name, version } = action === "add" ? splitSpec(spec) : { name: spec, version: "" };
+      before[name] = deps[name] ?? devDeps[name] ?? null;
+      if (action === "add") {
+        delete deps[name];
+        delete devDeps[name];
+        (dev ? devDeps : deps)[name] = version;
+      } else {
+        const sections = dev === undefined ? [deps, devDeps] : [dev ? devDeps : deps];
+        if (!sections.some((s) => name in s)) missing.push(name);
+        for (const s of sections) delete s[name];
+      }
+      after[name] = deps[name] ?? devDeps[name] ?? null;
+    }
+    const next: Manifest = { ...manifest };
+    if (Object.keys(deps).length || manifest.dependencies) next.dependencies = sortKeys(deps);
+    if (Object.keys(devDeps).length || manifest.devDependencies) next.devDependencies = sortKeys(devDeps);
+    return { next, before, after, missing };
+  }
+
+  async function install(target: DependencyTarget): Promise<InstallResult> {
+    try {
+      return await opts.installer.install({ cwd: target.installRoot, workspace: target.workspace });
+    } catch (e: any) {
+      return { ok: false, output: String(e?.message || e) };
+    }
+  }
+
+  async function applyNow(req: {
+    action: "add" | "remove";
+    packages: string[];
+    dev?: boolean;
+    target: DependencyTarget;
+    sessionId?: string;
+    beforeWrite?: () => void;
+  }): Promise<DependencyChange> {
+    const manifestFile = path.join(req.target.dir, "package.json");
+    const lockfile = path.join(req.target.installRoot, "package-lock.json");
+    const manifestText = fs.readFileSync(manifestFile, "utf-8");
+    const lockText = fs.existsSync(lockfile) ? fs.readFileSync(lockfile, "utf-8") : null;
+    const { next, before, after, missing } = edit(JSON.parse(manifestText) as Manifest, req.action, req.packages, req.dev);
+    const change: DependencyChange = {
+      id: crypto.randomBytes(8).toString("hex"),
+      action: req.action,
+      packages: req.packages,
+      dev: Boolean(req.dev),
+      workspace: req.target.name,
+      session_id: req.sessionId,
+      installer: opts.installer.name,
+      status: "failed",
+      before,
+      after,
+      output: "",
+      created_at: new Date().toISOString(),
+    };
+    if (missing.length) {
+      change.after = before;
+      change.note = `Not a dependency: ${missing.join(", ")}`;
+      save(change);
+      return change;
+    }
+
+    req.beforeWrite?.();
+    const trailing = /\s*$/.exec(manifestText)?.[0] || "\n";
+    fs.writeFileSync(manifestFile, JSON.stringify(next, null, 2) + trailing, "utf-8");
+    const result = await install(req.target);
+    change.output = result.output;
+    if (result.ok) {
+      change.status = "applied";
+    } else {
+      const restoreLockfile = () => {
+        if (lockText === null) fs.rmSync(lockfile, { force: true });
+        else fs.writeFileSync(lockfile, lockText, "utf-8");
+      };
+      fs.writeFileSync(manifestFile, manifestText, "utf-8");
+      restoreLockfile();
+      const repair = await install(req.target);
+      restoreLockfile(); // npm may have rewritten or created it
+      change.output = `${result.output}\n--- reinstall after restoring ---\n${repair.output}`.slice(-MAX_INSTALL_OUTPUT);
+      change.status = "rolled_back";
+      change.note = repair.ok
+        ? "Install failed; package.json and package-lock.json were restored and node_modules reinstalled from them"
+        : "Install failed; package.json and package-lock.json were restored, but reinstalling from them failed too, so node_modules may be incomplete";
+    }
+    save(change);
+    return change;
+  }
+
+  function apply(req: Parameters<typeof applyNow>[0]): Promise<DependencyChange> {
+    const run = queue.then(() => applyNow(req));
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return { get, list, apply };
+}
+
+export type DependencyManager = ReturnType<typeof createDependencyManager>;
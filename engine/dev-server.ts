@@ -0,0 +1,191 @@
+import net from "node:net";
+import { spawn, type ChildProcess } from "node:child_process";
+import { resolveBin, sandboxEnv } from "./check.js";
+import { createRingBuffer, type RingBuffer } from "./preview.js";
+
+// -----------------------------
+// Preview dev server supervision
+// -----------------------------
+export type DevServerState = "stopped" | "starting" | "ready" | "crashed";
+
+export type DevServerStatus = {
+  state: DevServerState;
+  port: number | null; // the port actually in use (may differ from the project's preferred one)
+  pid: number | null;
+  started_at?: string;
+  ready_at?: string;
+  exited_at?: string;
+  exit_code?: number | null;
+  // Tail of the server's output when it crashed or never became ready
+  error?: string;
+};
+
+type DevServerProject = { id: string; root: string; preview_port: number };
+
+type Server = {
+  status: DevServerStatus;
+  output: RingBuffer<string>;
+  child: ChildProcess | null;
+  stopping: boolean;
+  readyTimer: NodeJS.Timeout | null;
+};
+
+const OUTPUT_LINES = 300; // kept per server
+const ERROR_LINES = 30; // reported with a crash
+const PORT_SEARCH_RANGE = 20; // ports tried after the preferred one
+const STOP_GRACE_MS = 3000; // SIGTERM, then SIGKILL
+
+// Strips ANSI colour codes some plugins print even with NO_COLOR set
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = net.createServer();
+    probe.once("error", () => resolve(false));
+    probe.once("listening", () => probe.close(() => resolve(true)));
+    probe.listen(port);
+  });
+}
+
+// The preferred port, or the next free one after it that is not reserved for something else
+async function allocatePort(preferred: number, reserved: Set<number>): Promise<number> {
+  for (let port = preferred; port <= preferred + PORT_SEARCH_RANGE; port++) {
+    if (port !== preferred && reserved.has(port)) continue;
+    if (await isPortFree(port)) return port;
+  }
+  throw new Error(`No free port in ${preferred}-${preferred + PORT_SEARCH_RANGE}`);
+}
+
+// Sends sig to the server's whole process group (vite plus the esbuild service it spawns)
+function signal(child: ChildProcess, sig: NodeJS.Signals): void {
+  try {
+    if (process.platform !== "win32" && child.pid) process.kill(-child.pid, sig);
+    else child.kill(sig);
+  } catch {
+    // already gone
+  }
+}
+
+// Runs one `vite` dev server per project as a child process: the server is ready once vite prints its
+// local URL, and crashed if it exits on its own or does not get there within readyTimeoutMs.
+// reservedPorts (e.g. the UI and other projects' preview ports) are skipped when the preferred port is taken.
+export function createDevServerManager(opts: { readyTimeoutMs: number; reservedPorts: () => number[]; env?: NodeJS.ProcessEnv }) {
+  const servers = new Map<string, Server>();
+
+  function entry(id: string): Server {
+    let server = servers.get(id);
+    if (!server) {
+      server = { status: { state: "stopped", port: null, pid: null }, output: createRingBuffer<string>(OUTPUT_LINES), child: null, stopping: false, readyTimer: null };
+      servers.set(id, server);
+    }
+    return server;
+  }
+
+  function errorTail(server: Server): string {
+    return server.output.snapshot().slice(-ERROR_LINES).join("\n");
+  }
+
+  async function start(project: DevServerProject): Promise<DevServerStatus> {
+    const server = entry(project.id);
+    // Also covers a start still allocating its port
+    if (server.child || server.status.state === "starting") return server.status;
+    server.stopping = false;
+    server.status = { state: "starting", port: null, pid: null, started_at: new Date().toISOString() };
+    let child: ChildProcess;
+    try {
+      const port = await allocatePort(project.preview_port, new Set(opts.reservedPorts()));
+      if (server.stopping) {
+        server.status = { state: "stopped", port: null, pid: null };
+        return server.status;
+      }
+      const args = [resolveBin(project.root, "vite", "vite"), "--port", String(port), "--strictPort"];
+      server.output.push(`$ vite --port ${port} (${project.root})`);
+      child = spawn(process.execPath, args, {
+        cwd: project.root,
+        env: sandboxEnv({ NODE_ENV: "development", ...opts.env }),
+        detached: process.platform !== "win32",
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      server.status.port = port;
+    } catch (e: any) {
+      server.output.push(String(e?.message || e));
+      server.status = { ...server.status, state: "crashed", exited_at: new Date().toISOString(), error: String(e?.message || e) };
+      return server.status;
+    }
+    server.child = child;
+    server.status.pid = child.pid ?? null;
+
+    let partial = "";
+    const onData = (chunk: Buffer) => {
+      const lines = (partial + stripAnsi(chunk.toString("utf-8"))).split(/\r?\n/);
+      partial = lines.pop() ?? "";
+      server.output.push(...lines);
+      if (server.status.state === "starting" && lines.some((l) => /Local:\s+https?:\/\//.test(l))) {
+        server.status = { ...server.status, state: "ready", ready_at: new Date().toISOString() };
+        if (server.readyTimer) clearTimeout(server.readyTimer);
+      }
+    };
+    child.stdout!.on("data", onData);
+    child.stderr!.on("data", onData);
+
+    server.readyTimer = setTimeout(() => {
+      if (server.child !== child || server.status.state !== "starting") return;
+      server.output.push(`Not ready after ${opts.readyTimeoutMs} ms; stopping`);
+      signal(child, "SIGKILL");
+    }, opts.readyTimeoutMs);
+
+    child.on("error", (err) => server.output.push(String(err.message)));
+    child.on("close", (code) => {
+      if (partial) server.output.push(partial);
+      if (server.readyTimer) clearTimeout(server.readyTimer);
+      if (server.child !== child) return;
+      server.child = null;
+      const exited = { ...server.status, pid: null, exited_at: new Date().toISOString(), exit_code: code };
+      server.status = server.stopping ? { ...exited, state: "stopped", port: null } : { ...exited, state: "crashed", error: errorTail(server) };
+    });
+    return server.status;
+  }
+
+  function stop(id: string): Promise<DevServerStatus> {
+    const server = entry(id);
+    const child = server.child;
+    server.stopping = true;
+    if (!child) return Promise.resolve(server.status);
+    return new Promise((resolve) => {
+      const kill = setTimeout(() => signal(child, "SIGKILL"), STOP_GRACE_MS);
+      child.once("close", () => {
+        clearTimeout(kill);
+        resolve(server.status);
+      });
+      signal(child, "SIGTERM");
+    });
+  }
+
+  async function restart(project: DevServerProject): Promise<DevServerStatus> {
+    await stop(project.id);
+    return start(project);
+  }
+
+  function status(id: string): DevServerStatus {
+    return entry(id).status;
+  }
+
+  function output(id: string): string[] {
+    return entry(id).output.snapshot();
+  }
+
+  // Synchronous so it also works from an exit handler; the servers' process groups get SIGTERM
+  function stopAll(): void {
+    for (const server of servers.values()) {
+      if (!server.child) continue;
+      server.stopping = true;
+      signal(server.child, "SIGTERM");
+    }
+  }
+
+  return { start, stop, restart, status, output, stopAll };
+}
+
+export type DevServerManager = ReturnType<typeof createDevServerManager>;
@@ -0,0 +1,158 @@
+// -----------------------------
+// Line-based unified diff
+// -----------------------------
+type Op = { type: " " | "-" | "+"; line: string };
+
+const MAX_LCS_CELLS = 4_000_000; // beyond this the changed middle is reported as one replacement
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffOps(a: string[], b: string[]): Op[] {
+  // Trim the common prefix/suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const ops: Op[] = a.slice(0, start).map((line) => ({ type: " ", line }));
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line) => ({ type: "-" as const, line })));
+    ops.push(...midB.map((line) => ({ type: "+" as const, line })));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: " ", line: midA[i] });
+        i++;
+        j++;
+      } else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        ops.push({ type: "-", line: midA[i++] });
+      } else {
+        ops.push({ type: "+", line: midB[j++] });
+      }
+    }
+  }
+
+  ops.push(...a.slice(endA).map((line) => ({ type: " " as const, line })));
+  return ops;
+}
+
+// Returns "" when the texts are identical
+export function unifiedDiff(oldText: string, newText: string, oldName: string, newName: string, context = 3): string {
+  const ops = diffOps(splitLines(oldText), splitLines(newText));
+  if (!ops.some((op) => op.type !== " ")) return "";
+
+  const out: string[] = [`--- ${oldName}`, `+++ ${newName}`];
+  let idx = 0;
+  while (idx < ops.length) {
+    // Find the next change and open a hunk around it
+    while (idx < ops.length && ops[idx].type === " ") idx++;
+    if (idx >= ops.length) break;
+    const hunkStart = Math.max(0, idx - context);
+    let hunkEnd = idx;
+    let lastChange = idx;
+    while (hunkEnd < ops.length) {
+      if (ops[hunkEnd].type !== " ") lastChange = hunkEnd;
+      else if (hunkEnd - lastChange > context * 2) break;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < hunkStart; k++) {
+      if (ops[k].type !== "+") oldLine++;
+      if (ops[k].type !== "-") newLine++;
+    }
+    const body = ops.slice(hunkStart, hunkEnd);
+    const oldCount = body.filter((op) => op.type !== "+").length;
+    const newCount = body.filter((op) => op.type !== "-").length;
+    out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    for (const op of body) out.push(op.type + op.line);
+    idx = hunkEnd;
+  }
+  return out.join("\n") + "\n";
+}
+
+// -----------------------------
+// Three-way line merge
+// -----------------------------
+// A run of changed base lines [start, end) and what replaces them (start === end: a pure insertion)
+type Chunk = { start: number; end: number; lines: string[] };
+
+function changedChunks(base: string[], other: string[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  let pos = 0;
+  let current: Chunk | null = null;
+  for (const op of diffOps(base, other)) {
+    if (op.type === " ") {
+      if (current) chunks.push(current);
+      current = null;
+      pos++;
+      continue;
+    }
+    current ??= { start: pos, end: pos, lines: [] };
+    if (op.type === "-") {
+      current.end = ++pos;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function sameChunk(a: Chunk, b: Chunk): boolean {
+  return a.start === b.start && a.end === b.end && a.lines.length === b.lines.length && a.lines.every((l, i) => l === b.lines[i]);
+}
+
+// Touching the same base lines, or inserting at the same place, counts as a conflict
+function chunksOverlap(a: Chunk, b: Chunk): boolean {
+  return a.start === b.start || (a.start < b.end && b.start < a.end);
+}
+
+// Applies both ours' and theirs' changes relative to base; null when they change the same lines differently.
+// Line endings follow theirs; a final newline follows whichever side changed it.
+export function mergeThreeWay(base: string, ours: string, theirs: string): string | null {
+  const baseLines = splitLines(base);
+  const chunks = [...changedChunks(baseLines, splitLines(ours)), ...changedChunks(baseLines, splitLines(theirs))].sort(
+    (a, b) => a.start - b.start || a.end - b.end,
+  );
+  const merged: Chunk[] = [];
+  for (const chunk of chunks) {
+    const previous = merged[merged.length - 1];
+    if (previous && sameChunk(previous, chunk)) continue;
+    if (previous && chunksOverlap(previous, chunk)) return null;
+    merged.push(chunk);
+  }
+  const out: string[] = [];
+  let pos = 0;
+  for (const chunk of merged) {
+    out.push(...baseLines.slice(pos, chunk.start), ...chunk.lines);
+    pos = chunk.end;
+  }
+  out.push(...baseLines.slice(pos));
+  if (!out.length) return "";
+  const finalNewline = base.endsWith("\n") !== ours.endsWith("\n") ? ours.endsWith("\n") : theirs.endsWith("\n");
+  return out.join(theirs.includes("\r\n") ? "\r\n" : "\n") + (finalNewline ? (theirs.includes("\r\n") ? "\r\n" : "\n") : "");
+}
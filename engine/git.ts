@@ -0,0 +1,213 @@
+import path from "node:path";
+import fs from "node:fs";
+import { spawn } from "node:child_process";
+import { sandboxEnv } from "./check.js";
+
+// -----------------------------
+// Local git history for a project
+// -----------------------------
+export type GitFileChange = { status: string; path: string }; // status: A, M, D, R100, ...
+
+export type GitCommit = {
+  sha: string;
+  short: string;
+  date: string;
+  subject: string;
+  body: string;
+  files: GitFileChange[];
+};
+
+export class GitError extends Error {}
+
+const GIT_TIMEOUT_MS = 30 * 1000;
+const MAX_GIT_OUTPUT = 2 * 1024 * 1024; // stdout kept per command; larger diffs are cut
+const SHA_RE = /^[0-9a-f]{4,40}$/;
+const SUBJECT_MAX = 72;
+const BODY_MAX_FILES = 50;
+
+// Commits are authored by the engine; hooks, signing and the user's global config stay out of it
+const GIT_CONFIG = [
+  "-c", "user.name=Engine",
+  "-c", "user.email=engine@localhost",
+  "-c", "commit.gpgsign=false",
+  "-c", "core.hooksPath=/dev/null",
+  "-c", "core.quotepath=false",
+];
+
+// Never committed, even before the project has a .gitignore of its own
+const DEFAULT_GITIGNORE = ["node_modules", "dist", ".vite", ".env*", ""].join("\n");
+
+// Pathspecs kept out of every commit whatever the project's .gitignore says; the same files the tools
+// may not touch (isForbiddenPath)
+const COMMIT_EXCLUDES = [":(exclude,glob)**/.env*", ":(exclude,glob)**/node_modules/**"];
+
+// First line of the prompt as the subject, the changed files in the body
+export function turnCommitMessage(prompt: string, files: GitFileChange[], sessionId?: string): string {
+  const firstLine = prompt.trim().split(/\r?\n/)[0]?.trim() ?? "";
+  const subject = !firstLine ? "Update files" : firstLine.length > SUBJECT_MAX ? firstLine.slice(0, SUBJECT_MAX - 1) + "…" : firstLine;
+  const lines = files.slice(0, BODY_MAX_FILES).map((f) => `${f.status[0]} ${f.path}`);
+  if (files.length > BODY_MAX_FILES) lines.push(`… and ${files.length - BODY_MAX_FILES} more`);
+  if (sessionId) lines.push("", `Session: ${sessionId}`);
+  return `${subject}\n\n${lines.join("\n")}\n`;
+}
+
+// "M\tsrc/App.tsx" and "R100\told\tnew" lines from --name-status
+function parseNameStatus(text: string): GitFileChange[] {
+  return text
+    .split("\n")
+    .filter((line) => line.includes("\t"))
+    .map((line) => {
+      const parts = line.split("\t");
+      return { status: parts[0], path: parts[parts.length - 1] };
+    });
+}
+
+// A repository rooted exactly at root. GIT_DIR is pinned so a repo further up (e.g. this one) is never touched.
+export function createGitRepo(root: string) {
+  const gitDir = path.join(root, ".git");
+  // Commands run one at a time, so overlapping turns never race for the index lock
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function run(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let stdout = "";
+      let stderr = "";
+      const child = spawn("git", [...GIT_CONFIG, ...args], {
+        cwd: root,
+        env: sandboxEnv({ GIT_DIR: gitDir, GIT_WORK_TREE: root, GIT_TERMINAL_PROMPT: "0", LC_ALL: "C" }),
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      child.stdout.on("data", (chunk: Buffer) => {
+        if (stdout.length < MAX_GIT_OUTPUT) stdout += chunk.toString("utf-8");
+      });
+      child.stderr.on("data", (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString("utf-8")).slice(-4000);
+      });
+      const timer = setTimeout(() => child.kill("SIGKILL"), GIT_TIMEOUT_MS);
+      child.on("error", (err) => {
+        clearTimeout(timer);
+        reject(new GitError(`git ${args[0]} failed: ${err.message}`));
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (code === 0) resolve(stdout);
+        else reject(new GitError(`git ${args[0]} failed: ${stderr.trim() || `exit code ${code}`}`));
+      });
+    });
+  }
+
+  function serialized<T>(fn: () => Promise<T>): Promise<T> {
+    const next = queue.then(fn, fn);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  function isRepo(): boolean {
+    return fs.existsSync(path.join(gitDir, "HEAD"));
+  }
+
+  function requireRepo(): void {
+    if (!isRepo()) throw new GitError("Git repository not initialized");
+  }
+
+  async function head(): Promise<string | null> {
+    try {
+      return (await run(["rev-parse", "--verify", "-q", "HEAD"])).trim() || null;
+    } catch {
+      return null; // no commits yet
+    }
+  }
+
+  // Full sha of a commit, or null if sha does not name one
+  async function resolve(sha: string): Promise<string | null> {
+    if (!SHA_RE.test(sha)) return null;
+    try {
+      return (await run(["rev-parse", "--verify", "-q", `${sha}^{commit}`])).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  // Stages everything and commits it; null when the tree is unchanged
+  async function commitStaged(message: string | ((files: GitFileChange[]) => string)): Promise<GitCommit | null> {
+    await run(["add", "-A", "--", ".", ...COMMIT_EXCLUDES]);
+    const files = parseNameStatus(await run(["diff", "--cached", "--name-status", "-M"]));
+    if (!files.length) return null;
+    const text = typeof message === "string" ? message : message(files);
+    await run(["commit", "-q", "--no-verify", "-m", text]);
+    const [commit] = await readLog(["-n1", "HEAD"]);
+    return commit;
+  }
+
+  // Creates .git (and a .gitignore when the project has none) and commits the current files
+  function init(): Promise<GitCommit | null> {
+    return serialized(async () => {
+      if (isRepo()) throw new GitError("Git repository already initialized");
+      await run(["init", "-q", "-b", "main"]);
+      const ignoreFile = path.join(root, ".gitignore");
+      if (!fs.existsSync(ignoreFile)) fs.writeFileSync(ignoreFile, DEFAULT_GITIGNORE, "utf-8");
+      return commitStaged("Initial commit");
+    });
+  }
+
+  function commitAll(message: string | ((files: GitFileChange[]) => string)): Promise<GitCommit | null> {
+    return serialized(async () => {
+      requireRepo();
+      return commitStaged(message);
+    });
+  }
+
+  async function readLog(args: string[]): Promise<GitCommit[]> {
+    const out = await run(["log", "--format=%x1e%H%x1f%h%x1f%aI%x1f%s%x1f%b%x1f", "--name-status", "-M", ...args]);
+    return out
+      .split("\x1e")
+      .filter((record) => record.trim())
+      .map((record) => {
+        const [sha, short, date, subject, body, names] = record.split("\x1f");
+        return { sha, short, date, subject, body: body.trim(), files: parseNameStatus(names ?? "") };
+      });
+  }
+
+  async function log(limit: number): Promise<GitCommit[]> {
+    requireRepo();
+    if (!(await head())) return [];
+    return readLog([`-n${limit}`]);
+  }
+
+  // The commit with its patch against its parent (the full tree for the first commit)
+  async function show(sha: string): Promise<{ commit: GitCommit; diff: string; truncated: boolean } | null> {
+    requireRepo();
+    const full = await resolve(sha);
+    if (!full) return null;
+    const [commit] = await readLog(["-n1", full]);
+    const diff = await run(["show", "--format=", "--patch", "-M", "--no-color", full]);
+    return { commit, diff, truncated: diff.length >= MAX_GIT_OUTPUT };
+  }
+
+  // Files whose content differs between the working tree and sha (what reverting to sha would touch)
+  async function changedSince(sha: string): Promise<string[]> {
+    await run(["add", "-A", "--", ".", ...COMMIT_EXCLUDES]);
+    const out = await run(["diff", "--cached", "--name-only", "--no-renames", sha]);
+    return out.split("\n").filter(Boolean);
+  }
+
+  // Puts the working tree back to sha's state and records that as a new commit, so history is never rewritten.
+  // Uncommitted changes are committed first; files untracked at sha that git ignores are left alone.
+  function revertTo(sha: string, before?: (files: string[]) => void): Promise<{ target: GitCommit; saved: GitCommit | null; commit: GitCommit | null } | null> {
+    return serialized(async () => {
+      requireRepo();
+      const full = await resolve(sha);
+      if (!full) return null;
+      const [target] = await readLog(["-n1", full]);
+      before?.(await changedSince(full));
+      const saved = await commitStaged("Save changes before revert");
+      await run(["read-tree", "-u", "--reset", full]);
+      const commit = await commitStaged(`Revert to ${target.short}: ${target.subject}`);
+      return { target, saved, commit };
+    });
+  }
+
+  return { isRepo, head, init, commitAll, log, show, revertTo };
+}
+
+export type GitRepo = ReturnType<typeof createGitRepo>;
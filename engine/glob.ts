@@ -0,0 +1,184 @@
+import path from "node:path";
+import fs from "node:fs";
+
+// -----------------------------
+// Glob matching (tool file filters and .gitignore)
+// -----------------------------
+// Paths are workspace-relative with "/" separators. Supported syntax: * and ? (within a segment),
+// ** (any number of segments), [abc] / [a-z] / [!abc] classes, {a,b} brace sets (nestable) and \ escapes.
+// A pattern without a slash matches a file or directory name at any depth ("*.tsx"); one with a
+// slash is anchored at the workspace root ("src/**/*.ts"). Include patterns match file paths only
+// ("src/components/**" for a folder). In exclude lists and .gitignore a pattern that matches a
+// directory also covers everything below it, and, as in git, "!pattern" cannot bring those files back.
+export class GlobError extends Error {}
+
+type GlobRule = {
+  re: RegExp;
+  negated: boolean; // "!pattern"
+  dirOnly: boolean; // "pattern/" (directories only)
+};
+
+function escapeRe(c: string): string {
+  return c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+// Index of the "}" closing the brace at start, and its top-level alternatives; null when unbalanced or without a comma
+function braceAlternatives(glob: string, start: number): { end: number; parts: string[] } | null {
+  let depth = 0;
+  let from = start + 1;
+  const parts: string[] = [];
+  for (let i = start; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "{") {
+      depth++;
+    } else if (c === "}") {
+      depth--;
+      if (depth === 0) {
+        parts.push(glob.slice(from, i));
+        return parts.length > 1 ? { end: i, parts } : null;
+      }
+    } else if (c === "," && depth === 1) {
+      parts.push(glob.slice(from, i));
+      from = i + 1;
+    }
+  }
+  return null;
+}
+
+// Unclosed "[" and "{" (or braces without a comma) are taken literally, as shells do
+function translate(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "\\" && i + 1 < glob.length) {
+      out += escapeRe(glob[++i]);
+    } else if (c === "*") {
+      let j = i;
+      while (glob[j] === "*") j++;
+      const wholeSegment = j - i > 1 && (i === 0 || glob[i - 1] === "/") && (j === glob.length || glob[j] === "/");
+      if (!wholeSegment) {
+        out += "[^/]*";
+      } else if (j === glob.length) {
+        out += ".*";
+      } else {
+        out += "(?:.*/)?"; // "**/" spans zero or more directories
+        j++;
+      }
+      i = j - 1;
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      let j = i + 1;
+      if (glob[j] === "!" || glob[j] === "^") j++;
+      if (glob[j] === "]") j++; // a leading "]" is part of the set
+      while (j < glob.length && glob[j] !== "]") j++;
+      if (j >= glob.length) {
+        out += "\\[";
+        continue;
+      }
+      const body = glob.slice(i + 1, j);
+      const negated = body[0] === "!" || body[0] === "^";
+      const set = (negated ? body.slice(1) : body).replace(/[\\\]^]/g, "\\$&");
+      out += negated ? `[^/${set}]` : `[${set}]`;
+      i = j;
+    } else if (c === "{") {
+      const braces = braceAlternatives(glob, i);
+      if (!braces) {
+        out += "\\{";
+        continue;
+      }
+      out += `(?:${braces.parts.map(translate).join("|")})`;
+      i = braces.end;
+    } else {
+      out += escapeRe(c);
+    }
+  }
+  return out;
+}
+
+function compileRule(pattern: string): GlobRule {
+  let glob = pattern.trim();
+  const negated = glob.startsWith("!");
+  if (negated) glob = glob.slice(1);
+  if (glob.startsWith("\\!") || glob.startsWith("\\#")) glob = glob.slice(1);
+  const dirOnly = glob.length > 1 && glob.endsWith("/");
+  if (dirOnly) glob = glob.slice(0, -1);
+  glob = glob.replace(/^\.\//, "");
+  const anchored = glob.includes("/");
+  glob = glob.replace(/^\//, "");
+  if (!glob) throw new GlobError(`Empty glob pattern: "${pattern}"`);
+  const body = translate(glob);
+  return { re: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`), negated, dirOnly };
+}
+
+// Later rules win, as in .gitignore
+function lastMatch(rules: GlobRule[], rel: string, isDir: boolean, initial: boolean): boolean {
+  let result = initial;
+  for (const rule of rules) {
+    if ((!rule.dirOnly || isDir) && rule.re.test(rel)) result = !rule.negated;
+  }
+  return result;
+}
+
+// Exclusion the way .gitignore works: a path is out when the rules exclude it or any directory above it.
+// An excluded directory is never looked into, so negations only apply below directories that are kept.
+function excluded(rules: GlobRule[], rel: string, isDir: boolean): boolean {
+  const parts = rel.split("/");
+  for (let n = 1; n < parts.length; n++) {
+    if (lastMatch(rules, parts.slice(0, n).join("/"), true, false)) return true;
+  }
+  return lastMatch(rules, rel, isDir, false);
+}
+
+function toList(patterns: string | string[] | undefined): string[] {
+  if (patterns === undefined) return [];
+  return (Array.isArray(patterns) ? patterns : [patterns]).filter((p) => p.trim() !== "");
+}
+
+// include: a path must match one of these (everything when there are only "!" patterns or none);
+// "!pattern" takes matches back out. exclude: matching paths are dropped, "!pattern" keeps them.
+// Throws GlobError on an empty or "!"-only pattern.
+export function createGlobMatcher(include?: string | string[], exclude?: string | string[]): (rel: string) => boolean {
+  const includeRules = toList(include).map(compileRule);
+  const excludeRules = toList(exclude).map(compileRule);
+  const includeAll = includeRules.every((r) => r.negated);
+  return (rel) => lastMatch(includeRules, rel, false, includeAll) && !excluded(excludeRules, rel, false);
+}
+
+// The project's root .gitignore; reloaded when it changes. Nested .gitignore files are not read.
+export function createGitignore(root: string) {
+  const file = path.join(root, ".gitignore");
+  let key = "";
+  let rules: GlobRule[] = [];
+
+  // Returns a key that changes whenever the rules do
+  function reload(): string {
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    const next = stat ? `${stat.mtimeMs}:${stat.size}` : "none";
+    if (next === key) return key;
+    key = next;
+    rules = [];
+    if (!stat) return key;
+    for (const line of fs.readFileSync(file, "utf-8").split(/\r?\n/)) {
+      const pattern = line.replace(/(?<!\\)\s+$/, "");
+      if (!pattern || pattern.startsWith("#")) continue;
+      try {
+        rules.push(compileRule(pattern));
+      } catch {
+        // a bare "!" or "/" ignores nothing
+      }
+    }
+    return key;
+  }
+
+  // Uses the rules as of the last reload()
+  function ignored(rel: string, isDir: boolean): boolean {
+    return rules.length > 0 && excluded(rules, rel, isDir);
+  }
+
+  return { reload, ignored };
+}
+
+export type Gitignore = ReturnType<typeof createGitignore>;
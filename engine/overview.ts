@@ -0,0 +1,155 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+// -----------------------------
+// Project overview injected into every prompt
+// -----------------------------
+// File list (with each source file's exports), package.json dependencies and excerpts of the entry files,
+// so the model does not spend tool calls just to find out what exists.
+export type ProjectOverview = {
+  text: string;
+  files: number;
+  truncated: boolean; // parts were left out to stay within the size budget
+  generated_at: string;
+};
+
+// Excerpted in this order when present (package.json is covered by its own section)
+const ENTRY_FILES = ["index.html", "src/main.tsx", "src/main.ts", "src/App.tsx", "src/App.ts", "vite.config.ts"];
+const EXCERPT_LINES = 40;
+const MAX_SCAN_BYTES = 64 * 1024; // larger files are listed without their exports
+const SOURCE_RE = /\.(?:[cm]?[jt]sx?)$/;
+const SKIPPED_DIRS = ["dist/", ".vite/"];
+
+function toRel(root: string, abs: string): string {
+  return path.relative(root, abs).split(path.sep).join("/");
+}
+
+// "export function Foo", "export default function App", "export const x", "export { a, b }"
+function exportedNames(source: string): string[] {
+  const names = new Set<string>();
+  for (const m of source.matchAll(/^export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|const|let|var|class|interface|type|enum)\s+([A-Za-z_$][\w$]*)/gm)) {
+    names.add(m[1]);
+  }
+  for (const m of source.matchAll(/^export\s*\{([^}]*)\}/gm)) {
+    for (const part of m[1].split(",")) {
+      const name = part.trim().split(/\s+as\s+/).pop()?.trim();
+      if (name) names.add(name);
+    }
+  }
+  if (!names.size && /^export\s+default\b/m.test(source)) names.add("default");
+  return [...names];
+}
+
+function dependencyLines(root: string): string[] {
+  const file = path.join(root, "package.json");
+  if (!fs.existsSync(file)) return [];
+  try {
+    const pkg = JSON.parse(fs.readFileSync(file, "utf-8"));
+    const list = (deps: Record<string, string> | undefined) =>
+      Object.entries(deps ?? {})
+        .map(([name, version]) => `${name}@${version}`)
+        .join(", ");
+    return [
+      pkg.dependencies && `dependencies: ${list(pkg.dependencies)}`,
+      pkg.devDependencies && `devDependencies: ${list(pkg.devDependencies)}`,
+      pkg.scripts && `scripts: ${Object.keys(pkg.scripts).join(", ")}`,
+    ].filter(Boolean);
+  } catch {
+    return ["(package.json is not valid JSON)"];
+  }
+}
+
+function excerpt(root: string, rel: string): string | null {
+  const abs = path.join(root, rel);
+  if (!fs.existsSync(abs)) return null;
+  const lines = fs.readFileSync(abs, "utf-8").trimEnd().split(/\r?\n/);
+  const shown = lines.slice(0, EXCERPT_LINES).join("\n");
+  const more = lines.length > EXCERPT_LINES ? `\n… (${lines.length - EXCERPT_LINES} more lines)` : "";
+  return `### ${rel}\n\`\`\`\n${shown}${more}\n\`\`\``;
+}
+
+// listFiles returns the absolute paths the tools may see. The overview is rebuilt only when a file
+// was added, removed or changed (path, mtime and size), or the budget changed.
+export function createProjectOverview(opts: { root: string; listFiles: () => string[] }) {
+  let cached: { key: string; overview: ProjectOverview } | null = null;
+
+  function build(files: Array<{ rel: string; size: number }>, maxChars: number): ProjectOverview {
+    const header = "# Project overview\nGenerated by the engine from the current files; use lov-view for anything not shown here.";
+    const deps = dependencyLines(opts.root);
+    const depsSection = deps.length ? `## package.json\n${deps.join("\n")}` : "";
+
+    const exportsOf = new Map<string, string[]>();
+    for (const f of files) {
+      if (!SOURCE_RE.test(f.rel) || f.size > MAX_SCAN_BYTES) continue;
+      const names = exportedNames(fs.readFileSync(path.join(opts.root, f.rel), "utf-8"));
+      if (names.length) exportsOf.set(f.rel, names);
+    }
+    const fileLines = (withExports: boolean) =>
+      files.map((f) => (withExports && exportsOf.has(f.rel) ? `${f.rel} — exports ${exportsOf.get(f.rel)!.join(", ")}` : f.rel));
+
+    const present = new Set(files.map((f) => f.rel));
+    const excerpts = ENTRY_FILES.filter((rel) => present.has(rel)).map((rel) => excerpt(opts.root, rel)).filter((e): e is string => Boolean(e));
+
+    const compose = (lines: string[], shownExcerpts: string[]) =>
+      [header, depsSection, `## Files (${files.length})\n${lines.join("\n")}`, ...(shownExcerpts.length ? ["## Entry files", ...shownExcerpts] : [])]
+        .filter(Boolean)
+        .join("\n\n");
+
+    // Dropped in order until it fits: excerpts (last first), export annotations, then the tail of the file list
+    let shownExcerpts = excerpts;
+    let lines = fileLines(true);
+    let text = compose(lines, shownExcerpts);
+    let truncated = false;
+    while (text.length > maxChars && shownExcerpts.length) {
+      shownExcerpts = shownExcerpts.slice(0, -1);
+      text = compose(lines, shownExcerpts);
+      truncated = true;
+    }
+    if (text.length > maxChars) {
+      lines = fileLines(false);
+      text = compose(lines, []);
+      truncated ||= exportsOf.size > 0;
+    }
+    if (text.length > maxChars) {
+      const over = text.length - maxChars;
+      let dropped = 0;
+      let removed = 0;
+      while (lines.length > 1 && removed < over + 40) {
+        removed += lines.pop()!.length + 1;
+        dropped++;
+      }
+      lines.push(`… and ${dropped} more files`);
+      text = compose(lines, []).slice(0, maxChars);
+      truncated = true;
+    }
+    return {
+      text,
+      files: files.length,
+      truncated,
+      generated_at: new Date().toISOString(),
+    };
+  }
+
+  function get(maxChars: number): ProjectOverview {
+    const files = opts
+      .listFiles()
+      .map((abs) => ({ abs, rel: toRel(opts.root, abs) }))
+      .filter((f) => !SKIPPED_DIRS.some((dir) => f.rel.startsWith(dir)))
+      .map((f) => {
+        const stat = fs.statSync(f.abs);
+        return { rel: f.rel, size: stat.size, mtimeMs: stat.mtimeMs };
+      })
+      .sort((a, b) => a.rel.localeCompare(b.rel));
+    const key = crypto
+      .createHash("sha1")
+      .update(`${maxChars}\n` + files.map((f) => `${f.rel}\t${f.mtimeMs}\t${f.size}`).join("\n"))
+      .digest("hex");
+    if (cached?.key !== key) cached = { key, overview: build(files, maxChars) };
+    return cached.overview;
+  }
+
+  return { get };
+}
+
+export type ProjectOverviewBuilder = ReturnType<typeof createProjectOverview>;
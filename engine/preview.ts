@@ -0,0 +1,103 @@
+// -----------------------------
+// Preview telemetry buffers
+// -----------------------------
+// Runtime output reported by the workspace preview, kept in memory only.
+
+// Fixed-capacity buffer that drops the oldest entries
+export function createRingBuffer<T>(capacity: number) {
+  const items: T[] = [];
+  return {
+    push(...entries: T[]) {
+      items.push(...entries);
+      if (items.length > capacity) items.splice(0, items.length - capacity);
+    },
+    snapshot(): T[] {
+      return items.slice();
+    },
+    get size() {
+      return items.length;
+    },
+  };
+}
+
+export type RingBuffer<T> = ReturnType<typeof createRingBuffer<T>>;
+
+// Entries reported before the preview knows its chat session are kept under this key
+export const UNASSIGNED_SESSION = "_unassigned";
+
+// One ring buffer per session; the least recently written sessions are evicted past maxSessions
+export function createSessionBuffers<T>(opts: { capacity: number; maxSessions: number }) {
+  const buffers = new Map<string, RingBuffer<T>>();
+
+  function push(sessionId: string | undefined, entries: T[]): void {
+    const key = sessionId || UNASSIGNED_SESSION;
+    let buf = buffers.get(key);
+    if (buf) {
+      buffers.delete(key); // re-insert to mark as most recent
+    } else {
+      buf = createRingBuffer<T>(opts.capacity);
+    }
+    buffers.set(key, buf);
+    buf.push(...entries);
+    while (buffers.size > opts.maxSessions) {
+      buffers.delete(buffers.keys().next().value as string);
+    }
+  }
+
+  // The session's entries followed by unassigned ones
+  function snapshot(sessionId: string | undefined): T[] {
+    const own = sessionId ? buffers.get(sessionId)?.snapshot() ?? [] : [];
+    const unassigned = buffers.get(UNASSIGNED_SESSION)?.snapshot() ?? [];
+    return [...own, ...unassigned];
+  }
+
+  return { push, snapshot };
+}
+
+export type ConsoleEntry = {
+  level: "log" | "info" | "warn" | "error" | "debug" | "uncaught" | "unhandledrejection";
+  message: string;
+  stack?: string;
+  url?: string;
+  timestamp: number;
+};
+
+// Case-insensitive substring match over level, message and stack; newest last, capped at limit
+export function filterConsoleEntries(entries: ConsoleEntry[], search: string | undefined, limit: number): ConsoleEntry[] {
+  const needle = (search ?? "").trim().toLowerCase();
+  const matched = needle
+    ? entries.filter((e) => `${e.level} ${e.message} ${e.stack ?? ""}`.toLowerCase().includes(needle))
+    : entries;
+  return matched.sort((a, b) => a.timestamp - b.timestamp).slice(-limit);
+}
+
+export type NetworkEntry = {
+  method: string;
+  url: string;
+  status: number; // 0: failed without a response
+  duration_ms: number;
+  request_body?: string;
+  response_body?: string;
+  error?: string;
+  timestamp: number;
+};
+
+// statusClasses: e.g. ["4xx", "5xx"]; "failed" selects requests without a response (status 0)
+export function filterNetworkEntries(
+  entries: NetworkEntry[],
+  opts: { search?: string; statusClasses?: string[] },
+  limit: number,
+): NetworkEntry[] {
+  const needle = (opts.search ?? "").trim().toLowerCase();
+  const classes = (opts.statusClasses ?? []).map((c) => c.trim().toLowerCase()).filter(Boolean);
+  const matched = entries.filter((e) => {
+    if (classes.length) {
+      const cls = e.status === 0 ? "failed" : `${Math.floor(e.status / 100)}xx`;
+      if (!classes.includes(cls)) return false;
+    }
+    if (!needle) return true;
+    const haystack = `${e.method} ${e.url} ${e.status} ${e.error ?? ""} ${e.request_body ?? ""} ${e.response_body ?? ""}`;
+    return haystack.toLowerCase().includes(needle);
+  });
+  return matched.sort((a, b) => a.timestamp - b.timestamp).slice(-limit);
+}
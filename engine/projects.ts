@@ -0,0 +1,146 @@
+import path from "node:path";
+import fs from "node:fs";
+
+// -----------------------------
+// Projects
+// -----------------------------
+// A project is an app the assistant works on: its own root directory and preview dev-server port.
+// The built-in default project is the repo's workspace/ and is not stored in the registry.
+export type Project = {
+  id: string;
+  name: string;
+  root: string;
+  preview_port: number;
+  created_from?: string; // id of the project it was copied from
+  template?: string; // id of the template it was created from
+  created_at: string;
+};
+
+type Registry = { active: string; projects: Project[] };
+
+const PROJECT_ID_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const FIRST_PREVIEW_PORT = 5175; // 5173 is the default project, 5174 the UI
+
+// Never copied into a new project
+const COPY_EXCLUDES = new Set(["node_modules", ".git", "dist", ".vite"]);
+
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 32)
+    .replace(/-+$/, "");
+  return slug || "project";
+}
+
+// Copies a project's files without node_modules, build output or .env files
+export function copyProjectFiles(from: string, to: string): void {
+  fs.cpSync(from, to, {
+    recursive: true,
+    filter: (src) => {
+      const base = path.basename(src);
+      return !COPY_EXCLUDES.has(base) && !base.startsWith(".env");
+    },
+  });
+}
+
+// Registry (active project and every created project) is one JSON file; new projects go under projectsDir
+export function createProjectStore(opts: { file: string; projectsDir: string; defaultProject: Omit<Project, "created_at"> }) {
+  const defaultProject: Project = { ...opts.defaultProject, created_at: new Date(0).toISOString() };
+
+  function read(): Registry {
+    if (!fs.existsSync(opts.file)) return { active: defaultProject.id, projects: [] };
+    try {
+      return JSON.parse(fs.readFileSync(opts.file, "utf-8")) as Registry;
+    } catch {
+      return { active: defaultProject.id, projects: [] };
+    }
+  }
+
+  function write(registry: Registry): void {
+    fs.mkdirSync(path.dirname(opts.file), { recursive: true });
+    fs.writeFileSync(opts.file + ".tmp", JSON.stringify(registry, null, 2), "utf-8");
+    fs.renameSync(opts.file + ".tmp", opts.file);
+  }
+
+  function list(): Project[] {
+    return [defaultProject, ...read().projects];
+  }
+
+  function get(id: string): Project | null {
+    if (!PROJECT_ID_RE.test(id)) return null;
+    return list().find((p) => p.id === id) ?? null;
+  }
+
+  // Falls back to the default project if the active one was removed from the registry by hand
+  function active(): Project {
+    return get(read().active) ?? defaultProject;
+  }
+
+  function activate(id: string): Project | null {
+    const project = get(id);
+    if (!project) return null;
+    write({ ...read(), active: project.id });
+    return project;
+  }
+
+  function uniqueId(name: string, taken: Set<string>): string {
+    const base = slugify(name);
+    let id = base;
+    for (let n = 2; taken.has(id) || fs.existsSync(path.join(opts.projectsDir, id)); n++) id = `${base}-${n}`;
+    return id;
+  }
+
+  function nextPort(projects: Project[]): number {
+    const used = new Set(projects.map((p) => p.preview_port));
+    let port = FIRST_PREVIEW_PORT;
+    while (used.has(port)) port++;
+    return port;
+  }
+
+  // populate fills the new project directory (a copy of another project, or a template).
+  // Dependencies resolve from the repo's node_modules, so the result usually runs without its own install.
+  function create(input: {
+    name: string;
+    populate: (root: string, project: { id: string; port: number }) => void;
+    createdFrom?: string;
+    template?: string;
+  }): Project {
+    const registry = read();
+    const all = [defaultProject, ...registry.projects];
+    const id = uniqueId(input.name, new Set(all.map((p) => p.id)));
+    const root = path.join(opts.projectsDir, id);
+    const port = nextPort(all);
+    fs.mkdirSync(opts.projectsDir, { recursive: true });
+    try {
+      input.populate(root, { id, port });
+    } catch (e) {
+      fs.rmSync(root, { recursive: true, force: true });
+      throw e;
+    }
+    // Own package name and a dev script pinned to the project's preview port
+    const manifestFile = path.join(root, "package.json");
+    if (fs.existsSync(manifestFile)) {
+      const manifest = JSON.parse(fs.readFileSync(manifestFile, "utf-8"));
+      manifest.name = id;
+      manifest.scripts = { ...(manifest.scripts ?? {}), dev: `vite --port ${port} --strictPort` };
+      fs.writeFileSync(manifestFile, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+    }
+    const project: Project = {
+      id,
+      name: input.name.trim() || id,
+      root,
+      preview_port: port,
+      created_from: input.createdFrom,
+      template: input.template,
+      created_at: new Date().toISOString(),
+    };
+    write({ ...registry, projects: [...registry.projects, project] });
+    return project;
+  }
+
+  return { list, get, active, activate, create };
+}
+
+export type ProjectStore = ReturnType<typeof createProjectStore>;
@@ -0,0 +1,267 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import { mergeThreeWay, unifiedDiff } from "./diff.js";
+
+// -----------------------------
+// Proposal types
+// -----------------------------
+// A file change queued in review mode instead of being written to disk
+export type ProposalChange =
+  | { kind: "write"; file: string; content: string }
+  | { kind: "rename"; file: string; new_file: string };
+
+export type ProposalStatus = "pending" | "applied" | "rejected" | "conflict";
+
+export type Proposal = ProposalChange & {
+  id: string;
+  tool: string;
+  session_id?: string;
+  status: ProposalStatus;
+  // sha256 of the file the change was computed against (null: file did not exist); kept current as
+  // earlier proposals for the same file are approved or rejected
+  base_hash: string | null;
+  // rename only: sha256 of new_file when proposed (null: did not exist); approving refuses any other target
+  target_hash?: string | null;
+  diff: string;
+  created_at: string;
+  decided_at?: string;
+  note?: string;
+};
+
+const PROPOSAL_ID_RE = /^[a-f0-9]{16}$/;
+
+export function hashContent(data: Buffer | string | null): string | null {
+  if (data === null) return null;
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function readOrNull(abs: string): Buffer | null {
+  return fs.existsSync(abs) && fs.statSync(abs).isFile() ? fs.readFileSync(abs) : null;
+}
+
+function writeDiff(file: string, before: string | null, content: string): string {
+  return unifiedDiff(before ?? "", content, before === null ? "/dev/null" : `a/${file}`, `b/${file}`);
+}
+
+function touches(p: Proposal, rel: string): boolean {
+  return p.file === rel || (p.kind === "rename" && p.new_file === rel);
+}
+
+// One JSON file per proposal under dir; file paths are relative to root.
+// Pending proposals form a queue in created_at order: each one is computed against the files as the
+// proposals before it would leave them, and is rebased whenever one of those is approved or rejected.
+export function createProposalStore(dir: string, root: string) {
+  let lastCreatedAt = "";
+
+  function fileFor(id: string): string {
+    if (!PROPOSAL_ID_RE.test(id)) throw new Error("Invalid proposal id");
+    return path.join(dir, `${id}.json`);
+  }
+
+  function save(p: Proposal): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(fileFor(p.id), JSON.stringify(p, null, 2), "utf-8");
+  }
+
+  function get(id: string): Proposal | null {
+    if (!PROPOSAL_ID_RE.test(id)) return null;
+    const file = fileFor(id);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Proposal;
+  }
+
+  function list(filter: { sessionId?: string; status?: ProposalStatus } = {}): Proposal[] {
+    if (!fs.existsSync(dir)) return [];
+    const all: Proposal[] = [];
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        all.push(JSON.parse(fs.readFileSync(path.join(dir, name), "utf-8")));
+      } catch {
+        // ignore unreadable proposals
+      }
+    }
+    return all
+      .filter((p) => !filter.sessionId || p.session_id === filter.sessionId)
+      .filter((p) => !filter.status || p.status === filter.status)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  // The queue is ordered by created_at, so two proposals made in the same millisecond must not tie
+  function nextCreatedAt(): string {
+    let now = Date.now();
+    if (new Date(now).toISOString() <= lastCreatedAt) now = Date.parse(lastCreatedAt) + 1;
+    lastCreatedAt = new Date(now).toISOString();
+    return lastCreatedAt;
+  }
+
+  // Files as the given proposals leave them: content by path (null: absent), disk for untouched paths
+  function createOverlay() {
+    const files = new Map<string, string | null>();
+    function read(rel: string): string | null {
+      if (files.has(rel)) return files.get(rel)!;
+      const data = readOrNull(path.join(root, rel));
+      return data ? data.toString("utf-8") : null;
+    }
+    function apply(p: Proposal): void {
+      if (p.kind === "write") {
+        files.set(p.file, p.content);
+      } else {
+        files.set(p.new_file, read(p.file));
+        files.set(p.file, null);
+      }
+    }
+    return { read, apply };
+  }
+
+  // For each pending proposal, the content of its file right before it (the source file for renames)
+  function contentBefore(pending: Proposal[]): Map<string, string | null> {
+    const overlay = createOverlay();
+    const before = new Map<string, string | null>();
+    for (const p of pending) {
+      before.set(p.id, overlay.read(p.file));
+      overlay.apply(p);
+    }
+    return before;
+  }
+
+  // Content a new proposal for rel should build on: what the pending proposals (renames included)
+  // would leave there, otherwise what is on disk. Lets several edits to one file in a turn stack up.
+  function effectiveContent(rel: string): { content: string | null; hash: string | null } {
+    const overlay = createOverlay();
+    for (const p of list({ status: "pending" })) overlay.apply(p);
+    const content = overlay.read(rel);
+    return { content, hash: hashContent(content) };
+  }
+
+  function propose(change: ProposalChange, meta: { tool: string; sessionId?: string }): Proposal {
+    const base = effectiveContent(change.file);
+    const proposal: Proposal = {
+      ...change,
+      id: crypto.randomBytes(8).toString("hex"),
+      tool: meta.tool,
+      session_id: meta.sessionId,
+      status: "pending",
+      base_hash: base.hash,
+      diff: change.kind === "write" ? writeDiff(change.file, base.content, change.content) : `rename from ${change.file}\nrename to ${change.new_file}\n`,
+      created_at: nextCreatedAt(),
+    };
+    if (change.kind === "rename") proposal.target_hash = effectiveContent(change.new_file).hash;
+    save(proposal);
+    return proposal;
+  }
+
+  // After decided left the queue, moves every later-queued proposal onto what now comes before it: a write is
+  // 3-way merged so it keeps only its own change, and its base_hash and diff are recomputed. Proposals that
+  // built on a file that is now missing, or whose lines overlap what changed, become conflicts.
+  function rebase(decided: Proposal, remaining: Proposal[], before: Map<string, string | null>): void {
+    const overlay = createOverlay();
+    for (const p of remaining) {
+      const previous = before.get(p.id) ?? null;
+      const current = overlay.read(p.file);
+      if (current !== previous) {
+        let content: string | null = current;
+        if (p.kind === "write") content = previous === null || current === null ? null : mergeThreeWay(previous, current, p.content);
+        if (content === null) {
+          p.status = "conflict";
+          p.note = `Could not be rebased after proposal ${decided.id} was ${decided.status}`;
+          p.decided_at = new Date().toISOString();
+          save(p);
+          continue;
+        }
+        p.base_hash = hashContent(current);
+        if (p.kind === "write") {
+          p.content = content;
+          p.diff = writeDiff(p.file, current, content);
+        }
+        save(p);
+      }
+      overlay.apply(p);
+    }
+  }
+
+  // Applies a pending proposal on top of the files as they are now, even if proposals queued before it
+  // are still pending: a write keeps only its own change (3-way merge), and a rename carries the earlier
+  // proposals for its source over to the new name. Marks it conflict when the file changed in a way it
+  // cannot be merged with; throws when that is only because earlier proposals are still pending.
+  // beforeWrite is called for every path about to change (checkpoint capture).
+  function approve(id: string, beforeWrite: (rel: string) => void): Proposal | null {
+    const p = get(id);
+    if (!p) return null;
+    if (p.status !== "pending") throw new Error(`Proposal is already ${p.status}`);
+    const pending = list({ status: "pending" });
+    const index = pending.findIndex((q) => q.id === p.id);
+    const earlier = pending.slice(0, index).filter((q) => touches(q, p.file) || (p.kind === "rename" && touches(q, p.new_file)));
+    const before = contentBefore(pending);
+    const abs = path.join(root, p.file);
+    const data = readOrNull(abs);
+    const onDisk = data ? data.toString("utf-8") : null;
+    const outOfOrder = `Proposals queued earlier for ${p.file} are still pending; approve or reject them first`;
+
+    if (p.kind === "write") {
+      const expected = before.get(p.id) ?? null;
+      let content: string | null = p.content;
+      if (onDisk !== expected) content = onDisk === null || expected === null ? null : mergeThreeWay(expected, onDisk, p.content);
+      if (content === null && earlier.length) throw new Error(outOfOrder);
+      if (content === null) {
+        p.status = "conflict";
+        p.note = "File changed since the proposal was made";
+      } else {
+        beforeWrite(p.file);
+        fs.mkdirSync(path.dirname(abs), { recursive: true });
+        fs.writeFileSync(abs, content, "utf-8");
+        // Record what was actually written
+        p.base_hash = hashContent(onDisk);
+        p.content = content;
+        p.diff = writeDiff(p.file, onDisk, content);
+        p.status = "applied";
+      }
+    } else {
+      const absTo = path.join(root, p.new_file);
+      const target = fs.existsSync(absTo) ? hashContent(readOrNull(absTo)) ?? "directory" : null;
+      if (onDisk === null && earlier.length) throw new Error(outOfOrder);
+      if (onDisk === null) {
+        p.status = "conflict";
+        p.note = "File no longer exists";
+      } else if (target !== null && target !== (p.target_hash ?? null)) {
+        p.status = "conflict";
+        p.note = `${p.new_file} exists and was not the file this rename was allowed to replace`;
+      } else {
+        beforeWrite(p.file);
+        beforeWrite(p.new_file);
+        fs.renameSync(abs, absTo);
+        p.base_hash = hashContent(data);
+        p.status = "applied";
+        for (const q of pending.slice(0, index)) {
+          if (q.file !== p.file) continue;
+          q.file = p.new_file;
+          if (q.kind === "write") q.diff = writeDiff(q.file, before.get(q.id) ?? null, q.content);
+          save(q);
+        }
+      }
+    }
+    p.decided_at = new Date().toISOString();
+    save(p);
+    rebase(p, pending.filter((q) => q.id !== p.id), before);
+    return p;
+  }
+
+  // Conflicted proposals can still be rejected to clear them
+  function reject(id: string): Proposal | null {
+    const p = get(id);
+    if (!p) return null;
+    if (p.status !== "pending" && p.status !== "conflict") throw new Error(`Proposal is already ${p.status}`);
+    const pending = list({ status: "pending" });
+    const before = contentBefore(pending);
+    p.status = "rejected";
+    p.decided_at = new Date().toISOString();
+    save(p);
+    rebase(p, pending.filter((q) => q.id !== p.id), before);
+    return p;
+  }
+
+  return { get, list, effectiveContent, propose, approve, reject };
+}
+
+export type ProposalStore = ReturnType<typeof createProposalStore>;
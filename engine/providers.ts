@@ -0,0 +1,224 @@
+import fs from "node:fs";
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions";
+import { estimateMessagesTokens } from "./context.js";
+import type { AttachmentRef } from "./attachments.js";
+
+// -----------------------------
+// Provider types
+// -----------------------------
+export type ToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+export type AssistantMessage = {
+  role: "assistant";
+  content: string | null;
+  tool_calls?: ToolCall[];
+};
+
+// Multimodal user content as the chat-completions API takes it
+export type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+// Stored user messages keep attachment references; they become image parts only when a request is sent
+export type ProviderMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | ContentPart[]; attachments?: AttachmentRef[] }
+  | AssistantMessage
+  | { role: "tool"; tool_call_id: string; content: string };
+
+// The text of a message's content, without image parts
+export function contentText(content: string | ContentPart[] | null): string {
+  if (typeof content === "string" || content === null) return content ?? "";
+  return content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+export type TokenUsage = { prompt_tokens: number; completion_tokens: number };
+
+// One completion call's answer; usage is null when the backend did not report it
+export type Completion = { message: AssistantMessage; usage: TokenUsage | null; model: string };
+
+export type CompletionRequest = {
+  messages: ProviderMessage[];
+  tools: ChatCompletionTool[];
+  temperature?: number;
+  signal?: AbortSignal; // cancels the request (e.g. the client went away)
+};
+
+// A chat-completions backend with tool calling. When onDelta is given the
+// provider streams and reports content fragments as they arrive.
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(req: CompletionRequest, onDelta?: (content: string) => void): Promise<Completion>;
+}
+
+// -----------------------------
+// OpenAI
+// -----------------------------
+// Drops the engine-only fields (a user message's attachment refs) the API would reject
+function toOpenAIMessages(messages: ProviderMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((m): ChatCompletionMessageParam => {
+    switch (m.role) {
+      case "system":
+        return { role: "system", content: m.content };
+      case "user":
+        return { role: "user", content: m.content };
+      case "assistant":
+        return m.tool_calls?.length ? { role: "assistant", content: m.content, tool_calls: m.tool_calls } : { role: "assistant", content: m.content };
+      case "tool":
+        return { role: "tool", tool_call_id: m.tool_call_id, content: m.content };
+    }
+  });
+}
+
+export function createOpenAIProvider(opts: { apiKey?: string; model: string }): LLMProvider {
+  const openai = new OpenAI({ apiKey: opts.apiKey });
+
+  async function completeOnce(req: CompletionRequest): Promise<Completion> {
+    const completion = await openai.chat.completions.create({
+      model: opts.model,
+      messages: toOpenAIMessages(req.messages),
+      tools: req.tools.length ? req.tools : undefined, // the API rejects an empty list
+      temperature: req.temperature,
+    }, { signal: req.signal });
+    const message = completion.choices[0]?.message;
+    const result: AssistantMessage = { role: "assistant", content: message?.content ?? null };
+    if (message?.tool_calls?.length) {
+      result.tool_calls = message.tool_calls.map((c) => ({ id: c.id, type: "function", function: { name: c.function.name, arguments: c.function.arguments } }));
+    }
+    const usage = completion.usage ? { prompt_tokens: completion.usage.prompt_tokens, completion_tokens: completion.usage.completion_tokens } : null;
+    return { message: result, usage, model: completion.model || opts.model };
+  }
+
+  // Reassembles tool_calls from their streamed fragments; usage arrives in a final chunk without choices
+  async function completeStreaming(req: CompletionRequest, onDelta: (content: string) => void): Promise<Completion> {
+    const stream = await openai.chat.completions.create({
+      model: opts.model,
+      messages: toOpenAIMessages(req.messages),
+      tools: req.tools.length ? req.tools : undefined,
+      temperature: req.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: req.signal });
+    let content = "";
+    const toolCalls: ToolCall[] = [];
+    let usage: TokenUsage | null = null;
+    let model = opts.model;
+    for await (const chunk of stream) {
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) usage = { prompt_tokens: chunk.usage.prompt_tokens, completion_tokens: chunk.usage.completion_tokens };
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+      if (typeof delta.content === "string" && delta.content) {
+        content += delta.content;
+        onDelta(delta.content);
+      }
+      for (const part of delta.tool_calls ?? []) {
+        const slot = (toolCalls[part.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } });
+        if (part.id) slot.id = part.id;
+        if (part.function?.name) slot.function.name += part.function.name;
+        if (part.function?.arguments) slot.function.arguments += part.function.arguments;
+      }
+    }
+    const message: AssistantMessage = { role: "assistant", content: content || null };
+    if (toolCalls.length) message.tool_calls = toolCalls.filter(Boolean);
+    return { message, usage, model };
+  }
+
+  return {
+    name: "openai",
+    model: opts.model,
+    complete: (req, onDelta) => (onDelta ? completeStreaming(req, onDelta) : completeOnce(req)),
+  };
+}
+
+// -----------------------------
+// Mock (scripted replay)
+// -----------------------------
+// Fixture format:
+// {
+//   "scripts": [
+//     { "match": "rename", "steps": [ { "content": "...", "tool_calls": [ { "name": "lov-view", "arguments": { ... } } ] } ] },
+//     { "steps": [ ... ] }
+//   ]
+// }
+// The first script whose "match" regex hits the latest user message is replayed (a script
+// without "match" is the fallback). Each completion call consumes one step; a step
+// { "error": "..." } makes that call fail, as a backend error would.
+function parseMockToolCall(raw: any, stepIdx: number, callIdx: number): ToolCall {
+  if (!raw || typeof raw.name !== "string") throw new Error(`Mock fixture: step ${stepIdx} tool call ${callIdx} needs a name`);
+  const args = typeof raw.arguments === "string" ? raw.arguments : JSON.stringify(raw.arguments ?? {});
+  return { id: raw.id || `mock_${stepIdx}_${callIdx}`, type: "function", function: { name: raw.name, arguments: args } };
+}
+
+type MockStep = AssistantMessage | { error: string };
+type MockScript = { match?: RegExp; steps: MockStep[] };
+
+function loadMockScripts(fixturePath: string): MockScript[] {
+  const data = JSON.parse(fs.readFileSync(fixturePath, "utf-8"));
+  if (!Array.isArray(data?.scripts)) throw new Error(`Mock fixture ${fixturePath} has no scripts[]`);
+  return data.scripts.map((script: any) => ({
+    match: script.match ? new RegExp(script.match, "i") : undefined,
+    steps: (script.steps ?? []).map((step: any, i: number): MockStep => {
+      if (typeof step.error === "string") return { error: step.error };
+      const message: AssistantMessage = { role: "assistant", content: typeof step.content === "string" ? step.content : null };
+      if (Array.isArray(step.tool_calls) && step.tool_calls.length) {
+        message.tool_calls = step.tool_calls.map((c: any, j: number) => parseMockToolCall(c, i, j));
+      }
+      return message;
+    }),
+  }));
+}
+
+// One instance replays one script from the start, so create a provider per request
+export function createMockProvider(opts: { fixturePath: string }): LLMProvider {
+  const scripts = loadMockScripts(opts.fixturePath);
+  let active: MockScript | null = null;
+  let cursor = 0;
+
+  return {
+    name: "mock",
+    model: "mock",
+    async complete(req, onDelta) {
+      if (!active) {
+        const lastUser = [...req.messages].reverse().find((m) => m.role === "user");
+        const text = lastUser ? contentText(lastUser.content) : "";
+        active = scripts.find((s) => s.match && s.match.test(text)) ?? scripts.find((s) => !s.match) ?? { steps: [] };
+      }
+      const step = active.steps[cursor++] ?? { role: "assistant", content: "(mock script exhausted)" };
+      if ("error" in step) throw new Error(step.error);
+      if (onDelta && step.content) {
+        for (const piece of step.content.match(/\S+\s*/g) ?? []) onDelta(piece);
+      }
+      const message: AssistantMessage = { role: "assistant", content: step.content };
+      if (step.tool_calls) message.tool_calls = step.tool_calls.map((c) => ({ ...c, function: { ...c.function } }));
+      // No tokenizer here, but mock turns should still show up in usage stats
+      const usage = { prompt_tokens: estimateMessagesTokens(req.messages), completion_tokens: estimateMessagesTokens([message]) };
+      return { message, usage, model: "mock" };
+    },
+  };
+}
+
+// -----------------------------
+// Selection
+// -----------------------------
+export type ProviderConfig = {
+  provider: string;
+  model: string;
+  apiKey?: string;
+  mockFixturePath: string;
+};
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider({ apiKey: config.apiKey, model: config.model });
+    case "mock":
+      return createMockProvider({ fixturePath: config.mockFixturePath });
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
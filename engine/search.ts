@@ -0,0 +1,410 @@
+import path from "node:path";
+import fs from "node:fs";
+
+// -----------------------------
+// Indexed workspace search
+// -----------------------------
+// File contents are kept in memory and refreshed from directory watchers, so a search reads only
+// what changed since the last one. Binary files and files over the size limit are listed but not searched.
+export type SearchMatch = {
+  line: number;
+  preview: string;
+  before?: string[]; // context lines, nearest last
+  after?: string[];
+};
+
+export type FileMatches = {
+  file_path: string;
+  matches: SearchMatch[];
+  omitted?: number; // matches in this file beyond the per-file limit
+};
+
+export type SearchResult = {
+  results: FileMatches[];
+  total_matches: number; // across all files, after the per-file limit
+  offset: number;
+  next_offset: number | null; // pass as offset for the next page
+  skipped_files: { binary: number; too_large: number }; // selected by the filter but not searchable
+};
+
+export type SymbolKind = "function" | "component" | "class" | "interface" | "type" | "enum" | "variable";
+
+export type CodeSymbol = {
+  name: string;
+  kind: SymbolKind;
+  file_path: string;
+  line: number;
+  exported: boolean;
+  default?: true; // the module's default export
+  signature: string; // first line of the declaration
+};
+
+export type SymbolSearchResult = {
+  symbols: CodeSymbol[];
+  total: number;
+  offset: number;
+  next_offset: number | null;
+};
+
+type IndexedFile = {
+  size: number;
+  mtimeMs: number;
+  kind: "text" | "binary" | "too_large";
+  lines: string[]; // empty unless text
+  symbols?: CodeSymbol[]; // parsed on the first symbol search after a change
+};
+
+const PREVIEW_CHARS = 200;
+const SIGNATURE_CHARS = 160;
+const BINARY_SNIFF_BYTES = 8000; // a NUL byte in here marks the file as binary, as git does
+const MAX_WATCHED_DIRS = 2000; // beyond this the index falls back to checking every file's mtime per search
+const SYMBOL_FILE_RE = /\.(?:[cm]?[jt]sx?)$/;
+
+function isBinary(buf: Buffer): boolean {
+  return buf.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Long (e.g. minified) lines are cut around the match rather than from the start
+function previewLine(line: string, index: number): string {
+  if (line.length <= PREVIEW_CHARS) return line;
+  const start = Math.max(0, Math.min(index - PREVIEW_CHARS / 4, line.length - PREVIEW_CHARS));
+  return (start > 0 ? "…" : "") + line.slice(start, start + PREVIEW_CHARS) + (start + PREVIEW_CHARS < line.length ? "…" : "");
+}
+
+function page<T>(items: T[], offset: number, limit: number): { items: T[]; next_offset: number | null } {
+  const end = offset + limit;
+  return { items: items.slice(offset, end), next_offset: end < items.length ? end : null };
+}
+
+// -----------------------------
+// Symbols
+// -----------------------------
+type TypeScript = typeof import("typescript");
+let typescript: Promise<TypeScript> | null = null;
+
+// Loaded on the first symbol search; plain text search never needs it
+function loadTypeScript(): Promise<TypeScript> {
+  return (typescript ??= import("typescript").then((m) => m.default));
+}
+
+function scriptKind(ts: TypeScript, rel: string) {
+  if (rel.endsWith(".tsx")) return ts.ScriptKind.TSX;
+  if (rel.endsWith(".jsx")) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(rel)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+// Top-level declarations only (syntax, no type checking). PascalCase functions in .tsx/.jsx files count as components.
+function parseSymbols(ts: TypeScript, rel: string, text: string): CodeSymbol[] {
+  const sf = ts.createSourceFile(rel, text, ts.ScriptTarget.Latest, false, scriptKind(ts, rel));
+  const jsx = /\.[jt]sx$/.test(rel);
+  const hasModifier = (node: import("typescript").Node, kind: import("typescript").SyntaxKind) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+
+  // `export { a, b as default }` and `export default a` export declarations made elsewhere in the file
+  const exportedLater = new Map<string, { default: boolean }>();
+  for (const statement of sf.statements) {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const el of statement.exportClause.elements) {
+        const local = (el.propertyName ?? el.name).text;
+        exportedLater.set(local, { default: el.name.text === "default" || Boolean(exportedLater.get(local)?.default) });
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals && ts.isIdentifier(statement.expression)) {
+      exportedLater.set(statement.expression.text, { default: true });
+    }
+  }
+
+  const symbols: CodeSymbol[] = [];
+  // node is the whole statement, so a variable's signature keeps its `export const`
+  const add = (node: import("typescript").Node, name: string, kind: SymbolKind, declaredExport: boolean, declaredDefault: boolean) => {
+    const later = exportedLater.get(name);
+    const start = node.getStart(sf);
+    const signature = text.slice(start).split(/\r?\n/, 1)[0].trim();
+    const symbol: CodeSymbol = {
+      name,
+      kind,
+      file_path: rel,
+      line: sf.getLineAndCharacterOfPosition(start).line + 1,
+      exported: declaredExport || Boolean(later),
+      signature: signature.length > SIGNATURE_CHARS ? signature.slice(0, SIGNATURE_CHARS) + "…" : signature,
+    };
+    if (declaredDefault || later?.default) symbol.default = true;
+    symbols.push(symbol);
+  };
+  const functionKind = (name: string): SymbolKind => (jsx && /^[A-Z]/.test(name) ? "component" : "function");
+  // memo(() => …), forwardRef(function X() {…}) and the like still declare a function
+  const unwrap = (expr: import("typescript").Expression | undefined): import("typescript").Expression | undefined => {
+    while (expr && (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr))) expr = expr.expression;
+    if (expr && ts.isCallExpression(expr) && expr.arguments.length) {
+      const first = unwrap(expr.arguments[0]);
+      if (first && (ts.isArrowFunction(first) || ts.isFunctionExpression(first))) return first;
+    }
+    return expr;
+  };
+
+  for (const statement of sf.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = exported && hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+    if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text ?? (isDefault ? "default" : null);
+      if (name) add(statement, name, functionKind(name), exported, isDefault);
+    } else if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text ?? (isDefault ? "default" : null);
+      if (name) add(statement, name, "class", exported, isDefault);
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      add(statement, statement.name.text, "interface", exported, isDefault);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      add(statement, statement.name.text, "type", exported, false);
+    } else if (ts.isEnumDeclaration(statement)) {
+      add(statement, statement.name.text, "enum", exported, false);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const decl of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(decl.name)) continue;
+        const init = unwrap(decl.initializer);
+        const isFunction = Boolean(init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)));
+        add(statement, decl.name.text, isFunction ? functionKind(decl.name.text) : "variable", exported, false);
+      }
+    }
+  }
+  return symbols;
+}
+
+// Exact name first, then prefix, then substring; ties by path and line
+function symbolRank(name: string, query: string): number {
+  const lower = name.toLowerCase();
+  if (lower === query) return 0;
+  if (lower.startsWith(query)) return 1;
+  return lower.includes(query) ? 2 : -1;
+}
+
+// -----------------------------
+// Index
+// -----------------------------
+// skip(abs, isDir) excludes paths the tools may not see (node_modules, .git, .env files, gitignored
+// files); skipped directories are neither indexed nor watched. rulesKey() is called at the start of
+// every refresh and must change whenever skip() would answer differently; the index is rebuilt then.
+export function createSearchIndex(opts: {
+  root: string;
+  skip: (abs: string, isDir: boolean) => boolean;
+  rulesKey: () => string;
+  maxFileBytes: () => number;
+}) {
+  const files = new Map<string, IndexedFile>(); // by workspace-relative path
+  const watchers = new Map<string, fs.FSWatcher>(); // by absolute directory
+  const dirty = new Set<string>(); // absolute paths the watchers reported since the last refresh
+  let builtWith: string | null = null; // size limit and rules key of the current contents
+  let watching = true;
+
+  const toRel = (abs: string) => path.relative(opts.root, abs).split(path.sep).join("/");
+
+  function stopWatching(reason: string): void {
+    if (!watching) return;
+    console.warn(`[engine] search index for ${opts.root} stops watching (${reason}); falling back to mtime checks`);
+    watching = false;
+    for (const w of watchers.values()) w.close();
+    watchers.clear();
+    dirty.clear();
+  }
+
+  function watchDir(dirAbs: string): void {
+    if (!watching || watchers.has(dirAbs)) return;
+    if (watchers.size >= MAX_WATCHED_DIRS) return stopWatching(`more than ${MAX_WATCHED_DIRS} directories`);
+    try {
+      const watcher = fs.watch(dirAbs, { persistent: false }, (_event, name) => {
+        dirty.add(name ? path.join(dirAbs, name.toString()) : dirAbs);
+      });
+      // e.g. the directory itself was removed; its parent's watcher reports that
+      watcher.on("error", () => {
+        watcher.close();
+        watchers.delete(dirAbs);
+        dirty.add(dirAbs);
+      });
+      watchers.set(dirAbs, watcher);
+    } catch (e: any) {
+      stopWatching(e?.code || String(e?.message || e));
+    }
+  }
+
+  function unwatchUnder(dirAbs: string): void {
+    for (const [dir, watcher] of watchers) {
+      if (dir === dirAbs || dir.startsWith(dirAbs + path.sep)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+  }
+
+  function load(abs: string, stat: fs.Stats, limit: number): IndexedFile {
+    const base = { size: stat.size, mtimeMs: stat.mtimeMs };
+    if (stat.size > limit) return { ...base, kind: "too_large", lines: [] };
+    const buf = fs.readFileSync(abs);
+    if (isBinary(buf)) return { ...base, kind: "binary", lines: [] };
+    return { ...base, kind: "text", lines: buf.toString("utf-8").split(/\r?\n/) };
+  }
+
+  function updateFile(abs: string, stat: fs.Stats, limit: number): void {
+    const rel = toRel(abs);
+    const current = files.get(rel);
+    if (current && current.mtimeMs === stat.mtimeMs && current.size === stat.size) return;
+    try {
+      files.set(rel, load(abs, stat, limit));
+    } catch {
+      files.delete(rel); // removed or unreadable between stat and read
+    }
+  }
+
+  // Indexes (and watches) everything under dirAbs, then drops entries under it that are gone
+  function scanDir(dirAbs: string, limit: number): void {
+    const seen = new Set<string>();
+    const stack = [dirAbs];
+    while (stack.length) {
+      const dir = stack.pop()!;
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      watchDir(dir);
+      for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (opts.skip(full, entry.isDirectory())) continue;
+        if (entry.isDirectory()) {
+          stack.push(full);
+        } else if (entry.isFile()) {
+          const stat = fs.statSync(full, { throwIfNoEntry: false });
+          if (!stat) continue;
+          seen.add(toRel(full));
+          updateFile(full, stat, limit);
+        }
+      }
+    }
+    const prefix = dirAbs === opts.root ? "" : toRel(dirAbs) + "/";
+    for (const rel of files.keys()) {
+      if (rel.startsWith(prefix) && !seen.has(rel)) files.delete(rel);
+    }
+  }
+
+  function refreshPath(abs: string, limit: number): void {
+    const stat = fs.statSync(abs, { throwIfNoEntry: false });
+    if (abs !== opts.root && opts.skip(abs, Boolean(stat?.isDirectory()))) return;
+    if (!stat) {
+      const rel = toRel(abs);
+      files.delete(rel);
+      for (const key of files.keys()) if (key.startsWith(rel + "/")) files.delete(key);
+      unwatchUnder(abs);
+    } else if (stat.isDirectory()) {
+      scanDir(abs, limit);
+    } else if (stat.isFile()) {
+      updateFile(abs, stat, limit);
+    }
+  }
+
+  // A changed size limit or rule set rebuilds everything; without watchers every file's mtime is checked
+  async function refresh(): Promise<void> {
+    // Lets watcher events for writes made just before this search arrive first
+    await new Promise((resolve) => setImmediate(resolve));
+    const limit = opts.maxFileBytes();
+    const built = `${limit}:${opts.rulesKey()}`;
+    if (builtWith !== built) {
+      files.clear();
+      unwatchUnder(opts.root);
+      builtWith = built;
+      dirty.clear();
+      scanDir(opts.root, limit);
+      return;
+    }
+    if (!watching) return scanDir(opts.root, limit);
+    const changed = [...dirty];
+    dirty.clear();
+    for (const abs of changed) refreshPath(abs, limit);
+  }
+
+  async function search(q: {
+    query: string;
+    regex: boolean;
+    caseSensitive: boolean;
+    filter: (rel: string) => boolean;
+    contextLines: number;
+    maxResults: number;
+    maxPerFile: number;
+    offset: number;
+  }): Promise<SearchResult> {
+    const re = new RegExp(q.regex ? q.query : escapeRegExp(q.query), q.caseSensitive ? "" : "i");
+    await refresh();
+    const skipped = { binary: 0, too_large: 0 };
+    const hits: Array<{ file: string; line: number; lines: string[]; index: number; omitted: number }> = [];
+    for (const rel of [...files.keys()].sort()) {
+      if (!q.filter(rel)) continue;
+      const file = files.get(rel)!;
+      if (file.kind !== "text") {
+        skipped[file.kind]++;
+        continue;
+      }
+      const found: Array<{ line: number; index: number }> = [];
+      let total = 0;
+      file.lines.forEach((text, i) => {
+        const index = text.search(re);
+        if (index === -1) return;
+        total++;
+        if (found.length < q.maxPerFile) found.push({ line: i, index });
+      });
+      for (const f of found) hits.push({ file: rel, line: f.line, lines: file.lines, index: f.index, omitted: total - found.length });
+    }
+
+    const { items, next_offset } = page(hits, q.offset, q.maxResults);
+    const results: FileMatches[] = [];
+    for (const hit of items) {
+      const match: SearchMatch = { line: hit.line + 1, preview: previewLine(hit.lines[hit.line], hit.index) };
+      if (q.contextLines > 0) {
+        match.before = hit.lines.slice(Math.max(0, hit.line - q.contextLines), hit.line).map((l) => previewLine(l, 0));
+        match.after = hit.lines.slice(hit.line + 1, hit.line + 1 + q.contextLines).map((l) => previewLine(l, 0));
+      }
+      let group = results[results.length - 1];
+      if (group?.file_path !== hit.file) {
+        group = { file_path: hit.file, matches: [] };
+        if (hit.omitted) group.omitted = hit.omitted;
+        results.push(group);
+      }
+      group.matches.push(match);
+    }
+    return { results, total_matches: hits.length, offset: q.offset, next_offset, skipped_files: skipped };
+  }
+
+  async function searchSymbols(q: {
+    query: string;
+    kind?: SymbolKind;
+    exportedOnly: boolean;
+    filter: (rel: string) => boolean;
+    maxResults: number;
+    offset: number;
+  }): Promise<SymbolSearchResult> {
+    const ts = await loadTypeScript();
+    await refresh();
+    const query = q.query.trim().toLowerCase();
+    const ranked: Array<{ symbol: CodeSymbol; rank: number }> = [];
+    for (const [rel, file] of files) {
+      if (file.kind !== "text" || !SYMBOL_FILE_RE.test(rel) || rel.endsWith(".d.ts") || !q.filter(rel)) continue;
+      file.symbols ??= parseSymbols(ts, rel, file.lines.join("\n"));
+      for (const symbol of file.symbols) {
+        if (q.exportedOnly && !symbol.exported) continue;
+        if (q.kind && symbol.kind !== q.kind) continue;
+        const rank = query ? symbolRank(symbol.name, query) : 0;
+        if (rank !== -1) ranked.push({ symbol, rank });
+      }
+    }
+    ranked.sort(
+      (a, b) => a.rank - b.rank || a.symbol.file_path.localeCompare(b.symbol.file_path) || a.symbol.line - b.symbol.line,
+    );
+    const { items, next_offset } = page(ranked, q.offset, q.maxResults);
+    return { symbols: items.map((r) => r.symbol), total: ranked.length, offset: q.offset, next_offset };
+  }
+
+  return { search, searchSymbols };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -6,7 +6,50 @@ import express from "express";
 import cors from "cors";
 import { z } from "zod";
 import dotenv from "dotenv";
-import OpenAI from "openai";
+import {
+  createProvider,
+  type AssistantMessage,
+  type Completion,
+  type ContentPart,
+  type LLMProvider,
+  type ProviderMessage,
+  type ToolCall,
+} from "./providers.js";
+import { createSessionStore, type Session } from "./sessions.js";
+import { createCheckpointStore, type CheckpointRecorder } from "./checkpoints.js";
+import { createProposalStore, hashContent, type Proposal, type ProposalChange } from "./proposals.js";
+import { createDeletionStore, type Deletion } from "./deletions.js";
+import {
+  createDependencyManager,
+  createNoopInstaller,
+  createNpmInstaller,
+  splitSpec,
+  type DependencyChange,
+  type DependencyTarget,
+} from "./dependencies.js";
+import { createToolRegistry, example } from "./tool-registry.js";
+import { createUserEditLog } from "./user-edits.js";
+import { createChecker, type CheckResult } from "./check.js";
+import { createConfigStore, EngineConfigSchema, RESTART_REQUIRED, type ConfigKey } from "./config.js";
+import { copyProjectFiles, createProjectStore, type Project } from "./projects.js";
+import { createTemplateStore, missingDependencies, missingPackages, TemplateError } from "./templates.js";
+import { createDevServerManager } from "./dev-server.js";
+import { createGitRepo, turnCommitMessage, type GitCommit } from "./git.js";
+import { createTurnMeter, createUsageLog, type TurnMeter } from "./usage.js";
+import { createProjectOverview, type ProjectOverview } from "./overview.js";
+import { createSearchIndex } from "./search.js";
+import { createGitignore, createGlobMatcher, type Gitignore } from "./glob.js";
+import { ATTACHMENT_ID_RE, AttachmentError, createAttachmentStore, extensionFor, type AttachmentRef } from "./attachments.js";
+import {
+  buildContext,
+  estimateMessagesTokens,
+  estimateTextTokens,
+  planCompaction,
+  summarizeMessages,
+  type ContextInfo,
+  type ContextSummary,
+} from "./context.js";
+import { createSessionBuffers, filterConsoleEntries, filterNetworkEntries, type ConsoleEntry, type NetworkEntry } from "./preview.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -25,28 +68,46 @@ if (fs.existsSync(envLocal)) {
 }
 console.log("[engine] env loaded from:", ENV_SOURCE);
 const OPENAI_KEY_PRESENT = Boolean(process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.trim());
-if (!OPENAI_KEY_PRESENT) {
+const LLM_PROVIDER = (process.env.LLM_PROVIDER || "openai").trim().toLowerCase();
+if (!OPENAI_KEY_PRESENT && LLM_PROVIDER === "openai") {
   console.warn("[engine] OPENAI_API_KEY not set");
 }
 
 const app = express();
-app.use(cors());
+// The admin routes get no CORS headers, so a web page cannot call them (see requireAdmin)
+const corsHandler: express.RequestHandler = cors();
+app.use((req, res, next) => (req.path.startsWith("/admin/") ? next() : corsHandler(req, res, next)));
 app.use(express.json({ limit: "1mb" }));
 
 // Hard safety and configuration
-const WORKSPACE = path.resolve(path.join(__dirname, "..", "workspace"));
-const ALLOW_LISTED_DOMAINS = new Set([
-  "raw.githubusercontent.com",
-  "images.unsplash.com",
-]);
-const MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024; // 5 MB
+const WORKSPACE = path.resolve(path.join(__dirname, "..", "workspace")); // root of the default project
+const REPO_ROOT = path.dirname(WORKSPACE);
+const DATA_DIR = process.env.DATA_DIR ? path.resolve(__dirname, process.env.DATA_DIR) : path.join(__dirname, "data"); // engine-owned state, outside the workspace (DATA_DIR overrides)
+// New projects are created here; inside the repo so they resolve the hoisted node_modules (PROJECTS_DIR overrides)
+const PROJECTS_DIR = process.env.PROJECTS_DIR ? path.resolve(__dirname, process.env.PROJECTS_DIR) : path.join(REPO_ROOT, "projects");
+const TEMPLATES_DIR = path.join(REPO_ROOT, "templates"); // see templates/README.md
+const DEFAULT_PROJECT_ID = "workspace";
+const DEFAULT_PREVIEW_PORT = 5173;
+const UI_DEV_PORT = 5174; // never handed to a preview server
+const DEV_SERVER_READY_TIMEOUT_MS = 60 * 1000;
+const CONSOLE_BUFFER_SIZE = 500; // preview console entries kept per session
+const MAX_CONSOLE_RESULTS = 100; // entries returned by lov-read-console-logs
+const NETWORK_BUFFER_SIZE = 300; // preview network requests kept per session
+const MAX_NETWORK_RESULTS = 50; // requests returned by lov-read-network-requests
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000; // per dependency install
+const MAX_VIEW_BYTES = 1024 * 1024; // largest file GET /files/content returns
+const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+const MAX_UPLOAD_BODY = "25mb"; // hard cap on the raw upload; max_attachment_bytes is checked after
 
 // -----------------------------
-// Feature flags
+// Feature flags and limits
 // -----------------------------
-const ENABLE_DOWNLOAD = false;
-const ENABLE_DEPS = false;
-const ENABLE_DELETE = false;
+// engine/config.json (or ENGINE_CONFIG), overridable per key with ENGINE_<KEY> env vars and hot-reloaded.
+// Read config.get() at use time rather than caching values.
+const CONFIG_FILE = process.env.ENGINE_CONFIG ? path.resolve(__dirname, process.env.ENGINE_CONFIG) : path.join(__dirname, "config.json");
+const config = createConfigStore({ file: CONFIG_FILE });
+const STARTUP_CONFIG = config.get();
+config.watch();
 
 function isPathInside(childPath: string, parentPath: string): boolean {
   const resolvedChild = path.resolve(childPath) + path.sep;
@@ -54,7 +115,7 @@ function isPathInside(childPath: string, parentPath: string): boolean {
   return resolvedChild.startsWith(resolvedParent);
 }
 
-// Blocks traversal and ensures path is within WORKSPACE
+// Blocks traversal and ensures path is within base (a project root)
 function safeJoin(base: string, ...segments: string[]): string {
   for (const seg of segments) {
     if (seg.includes("..")) {
@@ -79,7 +140,8 @@ function normalizeWorkspaceRel(p: string): string {
 // Simple bounded fetch helper for remote resources (allow-listed only)
 async function boundedDownload(url: string): Promise<Buffer> {
   const u = new URL(url);
-  if (!ALLOW_LISTED_DOMAINS.has(u.host)) {
+  const { allow_listed_domains, max_download_bytes } = config.get();
+  if (!allow_listed_domains.includes(u.host)) {
     throw new Error("Domain not allow-listed");
   }
   const res = await fetch(url);
@@ -94,8 +156,8 @@ async function boundedDownload(url: string): Promise<Buffer> {
     if (done) break;
     if (value) {
       total += value.byteLength;
-      if (total > MAX_DOWNLOAD_BYTES) {
-        throw new Error("Download exceeds 5MB limit");
+      if (total > max_download_bytes) {
+        throw new Error(`Download exceeds ${max_download_bytes} byte limit`);
       }
       chunks.push(value);
     }
@@ -111,208 +173,101 @@ console.log("system prompt loaded");
 const ChatMessage = z.object({
   role: z.enum(["system", "user", "assistant", "tool"]),
   content: z.string(),
+  // Stored as pinned: always sent in full, even after older turns were summarized (user messages only)
+  pinned: z.boolean().optional(),
+  // Images uploaded to the session first (POST /sessions/:id/attachments); user messages only
+  attachments: z.array(z.string().regex(ATTACHMENT_ID_RE)).max(MAX_ATTACHMENTS_PER_MESSAGE).optional(),
 });
 
 const ChatRequest = z.object({
   messages: z.array(ChatMessage).min(1),
+  // With a session, send only the new message(s); earlier turns come from the stored transcript
+  session_id: z.string().optional(),
+  // Queue file changes for approval instead of writing them (defaults to config review_mode_default)
+  review: z.boolean().optional(),
 });
 
+// DEPS_INSTALLER=none only edits package.json; DEPS_REGISTRY / DEPS_CACHE_DIR point npm at a local mirror or tarball cache
+const DEPS_INSTALLER = (process.env.DEPS_INSTALLER || "npm").trim().toLowerCase();
+const installer =
+  DEPS_INSTALLER === "none"
+    ? createNoopInstaller()
+    : createNpmInstaller({
+        registry: process.env.DEPS_REGISTRY || undefined,
+        cacheDir: process.env.DEPS_CACHE_DIR ? path.resolve(__dirname, process.env.DEPS_CACHE_DIR) : undefined,
+        timeoutMs: INSTALL_TIMEOUT_MS,
+      });
+
 // -----------------------------
-// OpenAI Tool Definitions (exact names and params)
-// -----------------------------
-const OPENAI_TOOLS: any[] = [
-  {
-    type: "function",
-    function: {
-      name: "lov-view",
-      description:
-        "Use this tool to read the contents of a file. If it's a project file, the file path should be relative to the project root. You can optionally specify line ranges to read using the lines parameter (e.g., \"1-800, 1001-1500\"). By default, the first 500 lines are read if lines is not specified.\n\nIMPORTANT GUIDELINES:\n- Do NOT use this tool if the file contents have already been provided in \n- Do NOT specify line ranges unless the file is very large (>500 lines) - rely on the default behavior which shows the first 500 lines\n- Only use line ranges when you need to see specific sections of large files that weren't shown in the default view\n- If you need to read multiple files, invoke this tool multiple times in parallel (not sequentially) for efficiency",
-      parameters: {
-        properties: {
-          file_path: { example: "src/App.tsx", type: "string" },
-          lines: { example: "1-800, 1001-1500", type: "string" },
-        },
-        required: ["file_path"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-search-files",
-      description:
-        "Regex-based code search with file filtering and context.\n\nSearch using regex patterns across files in your project.\n\nParameters:\n- query: Regex pattern to find (e.g., \"useState\")\n- include_pattern: Files to include using glob syntax (e.g., \"src/**\")\n- exclude_pattern: Files to exclude using glob syntax (e.g., \"**/*.test.tsx\")\n- case_sensitive: Whether to match case (default: false)\n\nTip: Use \\\\ to escape special characters in regex patterns.",
-      parameters: {
-        properties: {
-          case_sensitive: { example: "false", type: "boolean" },
-          exclude_pattern: { example: "src/components/ui/**", type: "string" },
-          include_pattern: { example: "src/**", type: "string" },
-          query: { example: "useEffect\\(", type: "string" },
-        },
-        required: ["query", "include_pattern"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-read-console-logs",
-      description:
-        "Use this tool to read the contents of the latest console logs at the moment the user sent the request.\nYou can optionally provide a search query to filter the logs. If empty you will get all latest logs.\nYou may not be able to see the logs that didn't happen recently.\nThe logs will not update while you are building and writing code. So do not expect to be able to verify if you fixed an issue by reading logs again. They will be the same as when you started writing code.\nDO NOT USE THIS MORE THAN ONCE since you will get the same logs each time.",
-      parameters: {
-        properties: {
-          search: { example: "error", type: "string" },
-        },
-        required: ["search"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-read-network-requests",
-      description:
-        "Use this tool to read the contents of the latest network requests. You can optionally provide a search query to filter the requests. If empty you will get all latest requests. You may not be able to see the requests that didn't happen recently.",
-      parameters: {
-        properties: {
-          search: { example: "error", type: "string" },
-        },
-        required: ["search"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-line-replace",
-      description:
-        "Line-Based Search and Replace Tool\n\nUse this tool to find and replace specific content in a file you have access to, using explicit line numbers. This is the PREFERRED and PRIMARY tool for editing existing files. Always use this tool when modifying existing code rather than rewriting entire files.\n\nProvide the following details to make an edit:\n\t1.\tfile_path - The path of the file to modify\n\t2.\tsearch - The content to search for (use ellipsis ... for large sections instead of writing them out in full)\n\t3.\tfirst_replaced_line - The line number of the first line in the search (1-indexed)\n\t4.\tlast_replaced_line - The line number of the last line in the search (1-indexed)\n\t5.\treplace - The new content to replace the found content\n\nThe tool will validate that search matches the content at the specified line range and then replace it with replace.\n\nIMPORTANT: When invoking this tool multiple times in parallel (multiple edits to the same file), always use the original line numbers from the file as you initially viewed it. Do not adjust line numbers based on previous edits.\n\nELLIPSIS USAGE:\nWhen replacing sections of code longer than ~6 lines, you should use ellipsis (...) in your search to reduce the number of lines you need to specify (writing fewer lines is faster).\n- Include the first few lines (typically 2-3 lines) of the section you want to replace\n- Add \"...\" on its own line to indicate omitted content\n- Include the last few lines (typically 2-3 lines) of the section you want to replace\n- The key is to provide enough unique context at the beginning and end to ensure accurate matching\n- Focus on uniqueness rather than exact line counts - sometimes 2 lines is enough, sometimes you need 4\n\n\n\nExample:\nTo replace a user card component at lines 22-42:\n\nOriginal content in file (lines 20-45):\n20:   return (\n21:     \n22:       \n23:         \n24:         {user.name}\n25:         {user.email}\n26:         {user.role}\n27:         {user.department}\n28:         {user.location}\n29:         \n30:            onEdit(user.id)}>Edit\n31:            onDelete(user.id)}>Delete\n32:            onView(user.id)}>View\n33:         \n34:         \n35:           Created: {user.createdAt}\n36:           Updated: {user.updatedAt}\n37:           Status: {user.status}\n38:         \n39:         \n40:           Permissions: {user.permissions.join(', ')}\n41:         \n42:       \n43:     \n44:   );\n45: }\n\nFor a large replacement like this, you must use ellipsis:\n- search: \"      \\n        \\n...\\n          Permissions: {user.permissions.join(', ')}\\n        \\n      \"\n- first_replaced_line: 22\n- last_replaced_line: 42\n- replace: \"      \\n        \\n           {\\n              e.currentTarget.src = '/default-avatar.png';\\n            }}\\n          />\\n        \\n        \\n          {user.name}\\n          {user.email}\\n          \\n            {user.role}\\n            {user.department}\\n          \\n        \\n        \\n           onEdit(user.id)}\\n            aria-label=\\\"Edit user profile\\\"\\n          >\\n            Edit Profile\\n          \\n        \\n      \"\n\nCritical guidelines:\n\t1. Line Numbers - Specify exact first_replaced_line and last_replaced_line (1-indexed, first line is line 1)\n\t2. Ellipsis Usage - For large sections (>6 lines), use ellipsis (...) to include only the first few and last few key identifying lines for cleaner, more focused matching\n\t3. Content Validation - The prefix and suffix parts of search (before and after ellipsis) must contain exact content matches from the file (without line numbers). The tool validates these parts against the actual file content\n\t4. File Validation - The file must exist and be readable\n\t5. Parallel Tool Calls - When multiple edits are needed, invoke necessary tools simultaneously in parallel. Do NOT wait for one edit to complete before starting the next\n\t6. Original Line Numbers - When making multiple edits to the same file, always use original line numbers from your initial view of the file",
-      parameters: {
-        properties: {
-          file_path: { example: "src/components/TaskList.tsx", type: "string" },
-          first_replaced_line: { description: "First line number to replace (1-indexed)", example: "15", type: "number" },
-          last_replaced_line: { description: "Last line number to replace (1-indexed)", example: "28", type: "number" },
-          replace: { description: "New content to replace the search content with (without line numbers)", example: "  const handleTaskComplete = useCallback((taskId: string) => {\n    const updatedTasks = tasks.map(task =>\n      task.id === taskId \n        ? { ...task, completed: !task.completed, completedAt: new Date() }\n        : task\n    );\n    setTasks(updatedTasks);\n    onTaskUpdate?.(updatedTasks);\n    \n    // Analytics tracking\n    analytics.track('task_completed', { taskId, timestamp: Date.now() });\n  }, [tasks, onTaskUpdate]);", type: "string" },
-          search: { description: "Content to search for in the file (without line numbers). This should match the existing code that will be replaced.", example: "  const handleTaskComplete = (taskId: string) => {\n    setTasks(tasks.map(task =>\n...\n    ));\n    onTaskUpdate?.(updatedTasks);\n  };", type: "string" },
-        },
-        required: ["file_path", "search", "first_replaced_line", "last_replaced_line", "replace"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-write",
-      description:
-        "\nUse this tool to write to a file. Overwrites the existing file if there is one. The file path should be relative to the project root.\n\n  ### IMPORTANT: MINIMIZE CODE WRITING\n  - PREFER using lov-line-replace for most changes instead of rewriting entire files\n  - This tool is mainly meant for creating new files or as fallback if lov-line-replace fails\n  - When writing is necessary, MAXIMIZE use of \"// ... keep existing code\" to maintain unmodified sections\n  - ONLY write the specific sections that need to change - be as lazy as possible with your writes\n  \n  ### Using \"keep existing code\" (MANDATORY for large unchanged sections):\n  - Any unchanged code block over 5 lines MUST use \"// ... keep existing code\" comment\n  - The comment MUST contain the EXACT string \"... keep existing code\" \n  - Example: \"// ... keep existing code (user interface components)\"\n  - NEVER rewrite large sections of code that don't need to change\n  \n  Example with proper use of keep existing code:\n  ```\n  import React from 'react';\n  import './App.css';\n  \n  function App() {\n    // ... keep existing code (all UI components)\n    \n    // Only the new footer is being added\n    const Footer = () => (\n      New Footer Component\n    );\n    \n    return (\n      \n        // ... keep existing code (main content)\n        \n      \n    );\n  }\n  \n  export default App;\n  ```\n\n  ### Parallel Tool Usage\n  - If you need to create multiple files, it is very important that you create all of them at once instead of one by one, because it's much faster\n",
-      parameters: {
-        properties: {
-          content: { example: "console.log('Hello, World!')", type: "string" },
-          file_path: { example: "src/main.ts", type: "string" },
-        },
-        required: ["file_path", "content"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-rename",
-      description:
-        "You MUST use this tool to rename a file instead of creating new files and deleting old ones. The original and new file path should be relative to the project root.",
-      parameters: {
-        properties: {
-          new_file_path: { example: "src/main_new2.ts", type: "string" },
-          original_file_path: { example: "src/main.ts", type: "string" },
-        },
-        required: ["original_file_path", "new_file_path"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-delete",
-      description:
-        "Use this tool to delete a file. The file path should be relative to the project root.",
-      parameters: {
-        properties: {
-          file_path: { example: "src/App.tsx", type: "string" },
-        },
-        required: ["file_path"],
-        type: "object",
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-download-to-repo",
-      description:
-        "Download a remote file (allow-listed domains only, max 5MB) and save it under workspace/public or workspace/src/assets.",
-      parameters: {
-        type: "object",
-        properties: {
-          url: { type: "string", example: "https://raw.githubusercontent.com/user/repo/main/logo.png" },
-          save_path: { type: "string", example: "public/images/logo.png" },
-        },
-        required: ["url"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-add-dependency",
-      description:
-        "Add one or more pinned dependencies (e.g., react@18.3.1). Blocked when dependency management is disabled.",
-      parameters: {
-        type: "object",
-        properties: {
-          packages: { type: "array", items: { type: "string" }, example: ["react@18.3.1"] },
-          dev: { type: "boolean", example: false },
-          workspace: { type: "string", example: "workspace" },
-        },
-        required: ["packages"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "lov-remove-dependency",
-      description:
-        "Remove one or more dependencies by name. Blocked when dependency management is disabled.",
-      parameters: {
-        type: "object",
-        properties: {
-          packages: { type: "array", items: { type: "string" }, example: ["react"] },
-          dev: { type: "boolean", example: false },
-          workspace: { type: "string", example: "workspace" },
-        },
-        required: ["packages"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "stripe--enable_stripe",
-      description: "Enable Stripe integration (stub - returns not enabled).",
-      parameters: { type: "object", properties: {}, required: [] },
-    },
-  },
-];
+// Projects
+// -----------------------------
+// Each project has its own root, sessions, checkpoints, proposals, deletions and preview port.
+// The default project (workspace/) keeps its state directly under DATA_DIR; others under data/projects/<id>.
+const projects = createProjectStore({
+  file: path.join(DATA_DIR, "projects.json"),
+  projectsDir: PROJECTS_DIR,
+  defaultProject: { id: DEFAULT_PROJECT_ID, name: "Workspace", root: WORKSPACE, preview_port: DEFAULT_PREVIEW_PORT },
+});
+
+function openProject(project: Project) {
+  const dataDir = project.id === DEFAULT_PROJECT_ID ? DATA_DIR : path.join(DATA_DIR, "projects", project.id);
+  const ignore = createGitignore(project.root);
+  return {
+    project,
+    root: project.root,
+    sessions: createSessionStore(path.join(dataDir, "sessions")),
+    checkpoints: createCheckpointStore(path.join(dataDir, "checkpoints"), project.root),
+    proposals: createProposalStore(path.join(dataDir, "proposals"), project.root),
+    deletions: createDeletionStore(path.join(dataDir, "deletions"), project.root),
+    userEdits: createUserEditLog(path.join(dataDir, "user-edits.json")),
+    dependencies: createDependencyManager(path.join(dataDir, "dependencies"), { installer }),
+    checker: createChecker({ root: project.root, timeoutMs: () => config.get().check_timeout_ms }),
+    git: createGitRepo(project.root),
+    usage: createUsageLog(path.join(dataDir, "usage")),
+    attachments: createAttachmentStore(path.join(dataDir, "attachments"), { maxBytes: () => config.get().max_attachment_bytes }),
+    overview: createProjectOverview({ root: project.root, listFiles: () => listToolFiles(project.root, ignore) }),
+    search: createSearchIndex({
+      root: project.root,
+      skip: (abs, isDir) =>
+        Boolean(isForbiddenPath(project.root, abs)) || ignore.ignored(path.relative(project.root, abs).split(path.sep).join("/"), isDir),
+      rulesKey: () => ignore.reload(),
+      maxFileBytes: () => config.get().search_max_file_bytes,
+    }),
+  };
+}
+
+type ProjectContext = ReturnType<typeof openProject>;
+const openProjects = new Map<string, ProjectContext>();
+
+function projectContext(project: Project): ProjectContext {
+  let ctx = openProjects.get(project.id);
+  if (!ctx) {
+    ctx = openProject(project);
+    openProjects.set(project.id, ctx);
+  }
+  return ctx;
+}
+
+const templates = createTemplateStore(TEMPLATES_DIR, { workspace: WORKSPACE });
+
+// Routes and chat turns work on whichever project is active when the request arrives
+function activeProject(): ProjectContext {
+  return projectContext(projects.active());
+}
+
+// Only the active project's preview runs; switching projects stops the previous one.
+// VITE_* env vars are passed through (e.g. VITE_ENGINE_URL for the capture script).
+const devServers = createDevServerManager({
+  readyTimeoutMs: DEV_SERVER_READY_TIMEOUT_MS,
+  reservedPorts: () => [UI_DEV_PORT, STARTUP_CONFIG.port, ...projects.list().map((p) => p.preview_port)],
+  env: Object.fromEntries(Object.entries(process.env).filter(([key]) => key.startsWith("VITE_"))),
+});
+
+const consoleLogs = createSessionBuffers<ConsoleEntry>({ capacity: CONSOLE_BUFFER_SIZE, maxSessions: 50 });
+const networkRequests = createSessionBuffers<NetworkEntry>({ capacity: NETWORK_BUFFER_SIZE, maxSessions: 50 });
 
 // -----------------------------
-// Tool Handlers
+// Tool helpers
 // -----------------------------
 function parseLineRanges(input: string): Array<[number, number]> {
   return input
@@ -330,20 +285,9 @@ function parseLineRanges(input: string): Array<[number, number]> {
     });
 }
 
-function globToRegExp(glob: string): RegExp {
-  // Convert simple glob to regex: supports **, *, ? and path separators
-  const escaped = glob
-    .replace(/[.+^${}()|\[\]\\]/g, "\\$&")
-    .replace(/\*\*\//g, "(?:.*?/)?") // **/ -> any nested path
-    .replace(/\*\*/g, ".*")
-    .replace(/\*/g, "[^/]*")
-    .replace(/\?/g, ".");
-  return new RegExp("^" + escaped + "$");
-}
-
-function walkWorkspaceFiles(): string[] {
+function walkWorkspaceFiles(root: string): string[] {
   const results: string[] = [];
-  const stack: string[] = [WORKSPACE];
+  const stack: string[] = [root];
   while (stack.length) {
     const dir = stack.pop()!;
     const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -360,8 +304,17 @@ function walkWorkspaceFiles(): string[] {
   return results;
 }
 
-function isForbiddenPath(absPath: string): string | null {
-  const rel = path.relative(WORKSPACE, absPath);
+// What the file-listing tools and the project overview see: no forbidden paths and nothing
+// the project's .gitignore excludes
+function listToolFiles(root: string, ignore: Gitignore): string[] {
+  ignore.reload();
+  return walkWorkspaceFiles(root).filter(
+    (abs) => !isForbiddenPath(root, abs) && !ignore.ignored(path.relative(root, abs).split(path.sep).join("/"), false),
+  );
+}
+
+function isForbiddenPath(root: string, absPath: string): string | null {
+  const rel = path.relative(root, absPath);
   if (rel.startsWith("..")) return "Path escapes workspace";
   const parts = rel.split(path.sep);
   if (parts.includes("node_modules")) return "Operation not allowed in node_modules";
@@ -371,11 +324,65 @@ function isForbiddenPath(absPath: string): string | null {
   return null;
 }
 
-const toolHandlers: Record<string, (args: any) => Promise<string>> = {
-  "lov-view": async ({ file_path, lines }: { file_path: string; lines?: string }) => {
+// Per-turn state handed to every tool handler
+type ToolContext = {
+  // Fixed for the whole turn, even if the user switches projects meanwhile
+  project: ProjectContext;
+  sessionId?: string;
+  // Snapshots a workspace-relative file into the turn's checkpoint before it is modified
+  checkpoint: Pick<CheckpointRecorder, "capture">;
+  // Set in review mode: file-mutating tools queue a proposal here instead of touching disk
+  propose: ((change: ProposalChange, tool: string) => Proposal) | null;
+  // Opens a deletion request the user confirms or denies in the UI (lov-delete never deletes directly)
+  requestDeletion: (file: string) => Deletion;
+  // Preview console output as of the moment the user sent the request
+  consoleLogs: ConsoleEntry[];
+  networkRequests: NetworkEntry[];
+};
+
+// Current content of a file as an edit should see it; in review mode this includes pending proposals
+function readForEdit(ctx: ToolContext, rel: string, abs: string): string | null {
+  if (ctx.propose) return ctx.project.proposals.effectiveContent(rel).content;
+  return fs.existsSync(abs) ? fs.readFileSync(abs, "utf-8") : null;
+}
+
+function pendingReviewResult(proposal: Proposal): string {
+  return JSON.stringify({ status: "pending_review", file: proposal.file, proposal_id: proposal.id, note: "Change queued for user review; not applied yet" });
+}
+
+// -----------------------------
+// Tools (each declared once: description, zod args schema, handler)
+// -----------------------------
+const tools = createToolRegistry<ToolContext>();
+
+// Accepts numeric strings too ("15"), which models sometimes send for line numbers
+const lineNumber = () =>
+  z.preprocess((v) => (typeof v === "string" && v.trim() !== "" ? Number(v) : v), z.number().int().min(1));
+
+// Glob filters take one pattern or a list; a single string is accepted as a one-item list
+const globList = () => z.preprocess((v) => (typeof v === "string" ? [v] : v), z.array(z.string().min(1)).min(1));
+
+// Same leniency for limits and offsets
+const count = (min: number, max: number) =>
+  z.preprocess((v) => (typeof v === "string" && v.trim() !== "" ? Number(v) : v), z.number().int().min(min).max(max));
+
+const LINE_REPLACE_EXAMPLES = {
+  search: "  const handleTaskComplete = (taskId: string) => {\n    setTasks(tasks.map(task =>\n...\n    ));\n    onTaskUpdate?.(updatedTasks);\n  };",
+  replace: "  const handleTaskComplete = useCallback((taskId: string) => {\n    const updatedTasks = tasks.map(task =>\n      task.id === taskId \n        ? { ...task, completed: !task.completed, completedAt: new Date() }\n        : task\n    );\n    setTasks(updatedTasks);\n    onTaskUpdate?.(updatedTasks);\n    \n    // Analytics tracking\n    analytics.track('task_completed', { taskId, timestamp: Date.now() });\n  }, [tasks, onTaskUpdate]);",
+};
+
+tools.register({
+  name: "lov-view",
+  description:
+    "Use this tool to read the contents of a file. If it's a project file, the file path should be relative to the project root. You can optionally specify line ranges to read using the lines parameter (e.g., \"1-800, 1001-1500\"). By default, the first 500 lines are read if lines is not specified.\n\nIMPORTANT GUIDELINES:\n- Do NOT use this tool if the file contents have already been provided in \n- Do NOT specify line ranges unless the file is very large (>500 lines) - rely on the default behavior which shows the first 500 lines\n- Only use line ranges when you need to see specific sections of large files that weren't shown in the default view\n- If you need to read multiple files, invoke this tool multiple times in parallel (not sequentially) for efficiency",
+  args: z.object({
+    file_path: example(z.string(), "src/App.tsx"),
+    lines: example(z.string(), "1-800, 1001-1500").optional(),
+  }),
+  handler: async ({ file_path, lines }, ctx) => {
     try {
       const rel = normalizeWorkspaceRel(file_path);
-      const abs = safeJoin(WORKSPACE, rel);
+      const abs = safeJoin(ctx.project.root, rel);
       if (!fs.existsSync(abs)) return JSON.stringify({ error: "File not found. Use paths relative to workspace root, e.g. 'src/App.tsx' (no 'workspace/' prefix).", file: rel });
       const raw = fs.readFileSync(abs, "utf-8");
       const allLines = raw.split(/\r?\n/);
@@ -399,80 +406,124 @@ const toolHandlers: Record<string, (args: any) => Promise<string>> = {
       return JSON.stringify({ error: String(e?.message || e) });
     }
   },
-  "lov-search-files": async ({
-    query,
-    include_pattern,
-    exclude_pattern,
-    case_sensitive,
-  }: {
-    query: string;
-    include_pattern: string;
-    exclude_pattern?: string;
-    case_sensitive?: boolean;
-  }) => {
+});
+
+tools.register({
+  name: "lov-search-files",
+  description:
+    "Regex-based code search with file filtering and context.\n\nSearch using regex patterns across files in your project. Binary files, very large files and files ignored by the project's .gitignore are not searched.\n\nParameters:\n- query: Regex pattern to find (e.g., \"useState\")\n- include_pattern: Files to include, as a glob or a list of globs (e.g., \"src/**/*.{ts,tsx}\" or [\"src/**\", \"!src/components/ui/**\"])\n- exclude_pattern: Files to exclude, as a glob or a list of globs (e.g., \"**/*.test.tsx\")\n- case_sensitive: Whether to match case (default: false)\n- regex: Set to false to search for the query as literal text (default: true)\n- context_lines: Lines of context to include before and after each match (default: 0, max 10)\n- max_results: Matches to return (default: 50, max 200)\n- max_per_file: Matches to return per file (default: 5)\n- offset: Skip this many matches; pass next_offset from the previous result to get the next page\n\nTip: Use \\\\ to escape special characters in regex patterns, or set regex to false.",
+  args: z.object({
+    query: example(z.string().min(1), "useEffect\\("),
+    include_pattern: example(globList(), ["src/**/*.{ts,tsx}"]),
+    exclude_pattern: example(globList(), ["src/components/ui/**", "**/*.test.tsx"]).optional(),
+    case_sensitive: example(z.boolean(), false).optional(),
+    regex: example(z.boolean(), true).optional(),
+    context_lines: example(count(0, 10), 2).optional(),
+    max_results: example(count(1, 200), 50).optional(),
+    max_per_file: example(count(1, 100), 5).optional(),
+    offset: example(count(0, 100_000), 0).optional(),
+  }),
+  handler: async (args, ctx) => {
     try {
-      const includeRe = globToRegExp(include_pattern);
-      const excludeRe = exclude_pattern ? globToRegExp(exclude_pattern) : null;
-      const flags = case_sensitive ? "g" : "gi";
-      const re = new RegExp(query, flags);
-
-      const files = walkWorkspaceFiles();
-      const results: Array<{
-        file_path: string;
-        matches: Array<{ line: number; preview: string }>;
-      }> = [];
-
-      for (const full of files) {
-        const rel = path.relative(WORKSPACE, full).replace(/\\\\/g, "/");
-        if (!includeRe.test(rel)) continue;
-        if (excludeRe && excludeRe.test(rel)) continue;
-
-        const content = fs.readFileSync(full, "utf-8");
-        const lines = content.split(/\r?\n/);
-        const fileMatches: Array<{ line: number; preview: string }> = [];
-
-        for (let i = 0; i < lines.length && fileMatches.length < 3; i++) {
-          if (re.test(lines[i])) {
-            fileMatches.push({ line: i + 1, preview: lines[i].slice(0, 200) });
-          }
-          re.lastIndex = 0; // reset for next line scan
-        }
+      const filter = createGlobMatcher(args.include_pattern, args.exclude_pattern);
+      const result = await ctx.project.search.search({
+        query: args.query,
+        regex: args.regex ?? true,
+        caseSensitive: args.case_sensitive ?? false,
+        filter,
+        contextLines: args.context_lines ?? 0,
+        maxResults: args.max_results ?? 50,
+        maxPerFile: args.max_per_file ?? 5,
+        offset: args.offset ?? 0,
+      });
+      return JSON.stringify(result);
+    } catch (e: any) {
+      return JSON.stringify({ error: String(e?.message || e) });
+    }
+  },
+});
 
-        if (fileMatches.length > 0) {
-          results.push({ file_path: rel, matches: fileMatches });
-        }
-      }
-      return JSON.stringify(results);
+tools.register({
+  name: "lov-search-symbols",
+  description:
+    "Find where functions, React components, classes, types, interfaces, enums and top-level constants are declared, by name. Faster and more precise than a text search when you know (part of) a symbol's name.\n\nParameters:\n- query: Part of the symbol name, case-insensitive; exact and prefix matches come first. Empty lists every symbol.\n- kind: Only this kind of symbol (function, component, class, interface, type, enum, variable)\n- include_pattern: Files to search, as a glob or a list of globs (default: all source files)\n- exported_only: Only exported symbols (default: true)\n- max_results: Symbols to return (default: 50, max 200)\n- offset: Skip this many symbols; pass next_offset from the previous result to get the next page",
+  args: z.object({
+    query: example(z.string(), "Button"),
+    kind: example(z.enum(["function", "component", "class", "interface", "type", "enum", "variable"]), "component").optional(),
+    include_pattern: example(globList(), ["src/components/**"]).optional(),
+    exported_only: example(z.boolean(), true).optional(),
+    max_results: example(count(1, 200), 50).optional(),
+    offset: example(count(0, 100_000), 0).optional(),
+  }),
+  handler: async (args, ctx) => {
+    try {
+      const filter = createGlobMatcher(args.include_pattern);
+      const result = await ctx.project.search.searchSymbols({
+        query: args.query,
+        kind: args.kind,
+        exportedOnly: args.exported_only ?? true,
+        filter,
+        maxResults: args.max_results ?? 50,
+        offset: args.offset ?? 0,
+      });
+      return JSON.stringify(result);
     } catch (e: any) {
       return JSON.stringify({ error: String(e?.message || e) });
     }
   },
-  "lov-read-console-logs": async (_args: { search?: string }) => {
-    return JSON.stringify([]);
+});
+
+tools.register({
+  name: "lov-read-console-logs",
+  description:
+    "Use this tool to read the contents of the latest console logs at the moment the user sent the request.\nYou can optionally provide a search query to filter the logs. If empty you will get all latest logs.\nYou may not be able to see the logs that didn't happen recently.\nThe logs will not update while you are building and writing code. So do not expect to be able to verify if you fixed an issue by reading logs again. They will be the same as when you started writing code.\nDO NOT USE THIS MORE THAN ONCE since you will get the same logs each time.",
+  args: z.object({
+    search: example(z.string(), "error"),
+  }),
+  handler: async ({ search }, ctx) => {
+    return JSON.stringify(filterConsoleEntries(ctx.consoleLogs, search, MAX_CONSOLE_RESULTS));
   },
-  "lov-read-network-requests": async (_args: { search?: string }) => {
-    return JSON.stringify([]);
+});
+
+tools.register({
+  name: "lov-read-network-requests",
+  description:
+    "Use this tool to read the contents of the latest network requests. You can optionally provide a search query to filter the requests. If empty you will get all latest requests. You may not be able to see the requests that didn't happen recently.\nEach request reports method, url, status, duration_ms and truncated request/response bodies. Use status_class to keep only some status classes, e.g. \"4xx,5xx\" for failing calls or \"failed\" for requests that got no response.",
+  args: z.object({
+    search: example(z.string(), "error"),
+    status_class: example(z.string(), "4xx,5xx").optional(),
+  }),
+  handler: async ({ search, status_class }, ctx) => {
+    const statusClasses = typeof status_class === "string" ? status_class.split(",") : undefined;
+    return JSON.stringify(filterNetworkEntries(ctx.networkRequests, { search, statusClasses }, MAX_NETWORK_RESULTS));
   },
-  "lov-line-replace": async ({
-    file_path,
-    search,
-    first_replaced_line,
-    last_replaced_line,
-    replace,
-  }: {
-    file_path: string;
-    search: string;
-    first_replaced_line: number;
-    last_replaced_line: number;
-    replace: string;
-  }) => {
+});
+
+tools.register({
+  name: "lov-line-replace",
+  description:
+    "Line-Based Search and Replace Tool\n\nUse this tool to find and replace specific content in a file you have access to, using explicit line numbers. This is the PREFERRED and PRIMARY tool for editing existing files. Always use this tool when modifying existing code rather than rewriting entire files.\n\nProvide the following details to make an edit:\n\t1.\tfile_path - The path of the file to modify\n\t2.\tsearch - The content to search for (use ellipsis ... for large sections instead of writing them out in full)\n\t3.\tfirst_replaced_line - The line number of the first line in the search (1-indexed)\n\t4.\tlast_replaced_line - The line number of the last line in the search (1-indexed)\n\t5.\treplace - The new content to replace the found content\n\nThe tool will validate that search matches the content at the specified line range and then replace it with replace.\n\nIMPORTANT: When invoking this tool multiple times in parallel (multiple edits to the same file), always use the original line numbers from the file as you initially viewed it. Do not adjust line numbers based on previous edits.\n\nELLIPSIS USAGE:\nWhen replacing sections of code longer than ~6 lines, you should use ellipsis (...) in your search to reduce the number of lines you need to specify (writing fewer lines is faster).\n- Include the first few lines (typically 2-3 lines) of the section you want to replace\n- Add \"...\" on its own line to indicate omitted content\n- Include the last few lines (typically 2-3 lines) of the section you want to replace\n- The key is to provide enough unique context at the beginning and end to ensure accurate matching\n- Focus on uniqueness rather than exact line counts - sometimes 2 lines is enough, sometimes you need 4\n\n\n\nExample:\nTo replace a user card component at lines 22-42:\n\nOriginal content in file (lines 20-45):\n20:   return (\n21:     \n22:       \n23:         \n24:         {user.name}\n25:         {user.email}\n26:         {user.role}\n27:         {user.department}\n28:         {user.location}\n29:         \n30:            onEdit(user.id)}>Edit\n31:            onDelete(user.id)}>Delete\n32:            onView(user.id)}>View\n33:         \n34:         \n35:           Created: {user.createdAt}\n36:           Updated: {user.updatedAt}\n37:           Status: {user.status}\n38:         \n39:         \n40:           Permissions: {user.permissions.join(', ')}\n41:         \n42:       \n43:     \n44:   );\n45: }\n\nFor a large replacement like this, you must use ellipsis:\n- search: \"      \\n        \\n...\\n          Permissions: {user.permissions.join(', ')}\\n        \\n      \"\n- first_replaced_line: 22\n- last_replaced_line: 42\n- replace: \"      \\n        \\n           {\\n              e.currentTarget.src = '/default-avatar.png';\\n            }}\\n          />\\n        \\n        \\n          {user.name}\\n          {user.email}\\n          \\n            {user.role}\\n            {user.department}\\n          \\n        \\n        \\n           onEdit(user.id)}\\n            aria-label=\\\"Edit user profile\\\"\\n          >\\n            Edit Profile\\n          \\n        \\n      \"\n\nCritical guidelines:\n\t1. Line Numbers - Specify exact first_replaced_line and last_replaced_line (1-indexed, first line is line 1)\n\t2. Ellipsis Usage - For large sections (>6 lines), use ellipsis (...) to include only the first few and last few key identifying lines for cleaner, more focused matching\n\t3. Content Validation - The prefix and suffix parts of search (before and after ellipsis) must contain exact content matches from the file (without line numbers). The tool validates these parts against the actual file content\n\t4. File Validation - The file must exist and be readable\n\t5. Parallel Tool Calls - When multiple edits are needed, invoke necessary tools simultaneously in parallel. Do NOT wait for one edit to complete before starting the next\n\t6. Original Line Numbers - When making multiple edits to the same file, always use original line numbers from your initial view of the file",
+  args: z.object({
+    file_path: example(z.string(), "src/components/TaskList.tsx"),
+    first_replaced_line: example(lineNumber().describe("First line number to replace (1-indexed)"), 15),
+    last_replaced_line: example(lineNumber().describe("Last line number to replace (1-indexed)"), 28),
+    replace: example(
+      z.string().describe("New content to replace the search content with (without line numbers)"),
+      LINE_REPLACE_EXAMPLES.replace,
+    ),
+    search: example(
+      z.string().describe("Content to search for in the file (without line numbers). This should match the existing code that will be replaced."),
+      LINE_REPLACE_EXAMPLES.search,
+    ),
+  }),
+  handler: async ({ file_path, search, first_replaced_line, last_replaced_line, replace }, ctx) => {
     try {
       const rel = normalizeWorkspaceRel(file_path);
-      const abs = safeJoin(WORKSPACE, rel);
-      const forbidden = isForbiddenPath(abs);
+      const abs = safeJoin(ctx.project.root, rel);
+      const forbidden = isForbiddenPath(ctx.project.root, abs);
       if (forbidden) return JSON.stringify({ status: "error", file: rel, note: forbidden });
-      if (!fs.existsSync(abs)) return JSON.stringify({ status: "error", file: rel, note: "File not found. Use paths relative to workspace root, e.g. 'src/App.tsx' (no 'workspace/' prefix)." });
-      const raw = fs.readFileSync(abs, "utf-8");
+      const raw = readForEdit(ctx, rel, abs);
+      if (raw === null) return JSON.stringify({ status: "error", file: rel, note: "File not found. Use paths relative to workspace root, e.g. 'src/App.tsx' (no 'workspace/' prefix)." });
       const lines = raw.split(/\r?\n/);
       const start = Math.max(1, Number(first_replaced_line));
       const end = Math.max(start, Number(last_replaced_line));
@@ -511,15 +562,16 @@ const toolHandlers: Record<string, (args: any) => Promise<string>> = {
         }
       }
 
-      // Backup
-      try { fs.copyFileSync(abs, abs + ".bak"); } catch {}
-
       const replaceLines = replace.replace(/\r\n/g, "\n").split("\n");
       const newLines = [
         ...lines.slice(0, start - 1),
         ...replaceLines,
         ...lines.slice(end),
       ];
+      if (ctx.propose) {
+        return pendingReviewResult(ctx.propose({ kind: "write", file: rel, content: newLines.join("\n") }, "lov-line-replace"));
+      }
+      ctx.checkpoint.capture(rel);
       fs.writeFileSync(abs, newLines.join("\n"), "utf-8");
       const newEnd = (start - 1) + replaceLines.length;
       return JSON.stringify({ status: "ok", file: rel, start, end: newEnd });
@@ -527,20 +579,29 @@ const toolHandlers: Record<string, (args: any) => Promise<string>> = {
       return JSON.stringify({ status: "error", file: String((file_path && normalizeWorkspaceRel(String(file_path))) || ""), note: String(e?.message || e) });
     }
   },
-  "lov-write": async ({ file_path, content }: { file_path: string; content: string }) => {
+});
+
+tools.register({
+  name: "lov-write",
+  description:
+    "\nUse this tool to write to a file. Overwrites the existing file if there is one. The file path should be relative to the project root.\n\n  ### IMPORTANT: MINIMIZE CODE WRITING\n  - PREFER using lov-line-replace for most changes instead of rewriting entire files\n  - This tool is mainly meant for creating new files or as fallback if lov-line-replace fails\n  - When writing is necessary, MAXIMIZE use of \"// ... keep existing code\" to maintain unmodified sections\n  - ONLY write the specific sections that need to change - be as lazy as possible with your writes\n  \n  ### Using \"keep existing code\" (MANDATORY for large unchanged sections):\n  - Any unchanged code block over 5 lines MUST use \"// ... keep existing code\" comment\n  - The comment MUST contain the EXACT string \"... keep existing code\" \n  - Example: \"// ... keep existing code (user interface components)\"\n  - NEVER rewrite large sections of code that don't need to change\n  \n  Example with proper use of keep existing code:\n  ```\n  import React from 'react';\n  import './App.css';\n  \n  function App() {\n    // ... keep existing code (all UI components)\n    \n    // Only the new footer is being added\n    const Footer = () => (\n      New Footer Component\n    );\n    \n    return (\n      \n        // ... keep existing code (main content)\n        \n      \n    );\n  }\n  \n  export default App;\n  ```\n\n  ### Parallel Tool Usage\n  - If you need to create multiple files, it is very important that you create all of them at once instead of one by one, because it's much faster\n",
+  args: z.object({
+    content: example(z.string(), "console.log('Hello, World!')"),
+    file_path: example(z.string(), "src/main.ts"),
+  }),
+  handler: async ({ file_path, content }, ctx) => {
     try {
       const rel = normalizeWorkspaceRel(file_path);
-      if (typeof content !== "string") return JSON.stringify({ status: "error", file: rel, note: "Invalid content" });
-      if (Buffer.byteLength(content, "utf-8") > 200 * 1024) {
-        return JSON.stringify({ status: "error", file: rel, note: "Content exceeds 200KB; use lov-line-replace" });
+      const { max_write_bytes, max_write_changed_lines } = config.get();
+      if (Buffer.byteLength(content, "utf-8") > max_write_bytes) {
+        return JSON.stringify({ status: "error", file: rel, note: `Content exceeds ${Math.round(max_write_bytes / 1024)}KB; use lov-line-replace` });
       }
-      const abs = safeJoin(WORKSPACE, rel);
-      const forbidden = isForbiddenPath(abs);
+      const abs = safeJoin(ctx.project.root, rel);
+      const forbidden = isForbiddenPath(ctx.project.root, abs);
       if (forbidden) return JSON.stringify({ status: "error", file: rel, note: forbidden });
 
-      const exists = fs.existsSync(abs);
-      if (exists) {
-        const prev = fs.readFileSync(abs, "utf-8");
+      const prev = readForEdit(ctx, rel, abs);
+      if (prev !== null) {
         const prevLines = prev.split(/\r?\n/);
         const newLines = content.replace(/\r\n/g, "\n").split("\n");
         // naive changed-lines count
@@ -550,15 +611,22 @@ const toolHandlers: Record<string, (args: any) => Promise<string>> = {
           const a = prevLines[i] ?? "";
           const b = newLines[i] ?? "";
           if (a !== b) changed++;
-          if (changed > 400) break;
+          if (changed > max_write_changed_lines) break;
         }
-        if (changed > 400) {
-          return JSON.stringify({ status: "error", file: rel, note: "Change exceeds 400 lines; use lov-line-replace" });
+        if (changed > max_write_changed_lines) {
+          return JSON.stringify({ status: "error", file: rel, note: `Change exceeds ${max_write_changed_lines} lines; use lov-line-replace` });
         }
-        try { fs.copyFileSync(abs, abs + ".bak"); } catch {}
+        if (ctx.propose) {
+          return pendingReviewResult(ctx.propose({ kind: "write", file: rel, content: newLines.join("\n") }, "lov-write"));
+        }
+        ctx.checkpoint.capture(rel);
         fs.writeFileSync(abs, newLines.join("\n"), "utf-8");
         return JSON.stringify({ status: "ok", file: rel, note: "Overwritten with small changes" });
       } else {
+        if (ctx.propose) {
+          return pendingReviewResult(ctx.propose({ kind: "write", file: rel, content: content.replace(/\r\n/g, "\n") }, "lov-write"));
+        }
+        ctx.checkpoint.capture(rel);
         // ensure parent dir exists
         fs.mkdirSync(path.dirname(abs), { recursive: true });
         fs.writeFileSync(abs, content.replace(/\r\n/g, "\n"), "utf-8");
@@ -568,76 +636,110 @@ const toolHandlers: Record<string, (args: any) => Promise<string>> = {
       return JSON.stringify({ status: "error", file: String((file_path && normalizeWorkspaceRel(String(file_path))) || ""), note: String(e?.message || e) });
     }
   },
-  "lov-rename": async ({ original_file_path, new_file_path, confirm }: { original_file_path: string; new_file_path: string; confirm?: boolean }) => {
+});
+
+tools.register({
+  name: "lov-rename",
+  description:
+    "You MUST use this tool to rename a file instead of creating new files and deleting old ones. The original and new file path should be relative to the project root.",
+  args: z.object({
+    new_file_path: example(z.string(), "src/main_new2.ts"),
+    original_file_path: example(z.string(), "src/main.ts"),
+    confirm: z.boolean().optional().describe("Set to true to overwrite an existing target file"),
+  }),
+  handler: async ({ original_file_path, new_file_path, confirm }, ctx) => {
     try {
       const relFrom = normalizeWorkspaceRel(original_file_path);
       const relTo = normalizeWorkspaceRel(new_file_path);
-      const absFrom = safeJoin(WORKSPACE, relFrom);
-      const absTo = safeJoin(WORKSPACE, relTo);
-      const forbidFrom = isForbiddenPath(absFrom);
-      const forbidTo = isForbiddenPath(absTo);
+      const absFrom = safeJoin(ctx.project.root, relFrom);
+      const absTo = safeJoin(ctx.project.root, relTo);
+      const forbidFrom = isForbiddenPath(ctx.project.root, absFrom);
+      const forbidTo = isForbiddenPath(ctx.project.root, absTo);
       if (forbidFrom) return JSON.stringify({ status: "error", file: relFrom, note: forbidFrom });
       if (forbidTo) return JSON.stringify({ status: "error", file: relTo, note: forbidTo });
-      if (!fs.existsSync(absFrom)) return JSON.stringify({ status: "error", file: relFrom, note: "Source not found" });
+      // In review mode the files are as the pending proposals would leave them
+      const exists = (rel: string, abs: string) => (ctx.propose ? ctx.project.proposals.effectiveContent(rel).content !== null : fs.existsSync(abs));
+      if (!exists(relFrom, absFrom)) return JSON.stringify({ status: "error", file: relFrom, note: "Source not found" });
 
-      const relFromDir = path.dirname(path.relative(WORKSPACE, absFrom));
-      const relToDir = path.dirname(path.relative(WORKSPACE, absTo));
+      const relFromDir = path.dirname(path.relative(ctx.project.root, absFrom));
+      const relToDir = path.dirname(path.relative(ctx.project.root, absTo));
       if (relFromDir !== relToDir) {
         return JSON.stringify({ status: "error", file: relFrom, note: "Cross-directory renames are blocked" });
       }
 
-      if (fs.existsSync(absTo)) {
-        if (!confirm) {
-          return JSON.stringify({ status: "error", file: relTo, note: "Target exists; pass confirm:true to overwrite (backup will be created)" });
-        }
-        try { fs.renameSync(absTo, absTo + ".bak"); } catch {}
+      if (exists(relTo, absTo) && !confirm) {
+        return JSON.stringify({ status: "error", file: relTo, note: "Target exists; pass confirm:true to overwrite (previous content is kept in the turn checkpoint)" });
       }
 
+      if (ctx.propose) {
+        return pendingReviewResult(ctx.propose({ kind: "rename", file: relFrom, new_file: relTo }, "lov-rename"));
+      }
+      ctx.checkpoint.capture(relFrom);
+      ctx.checkpoint.capture(relTo);
       fs.renameSync(absFrom, absTo);
-      return JSON.stringify({ status: "ok", file: relTo, note: "Renamed (target backup created if existed)" });
+      return JSON.stringify({ status: "ok", file: relTo, note: "Renamed (previous state saved in checkpoint)" });
     } catch (e: any) {
       const relFallback = (new_file_path ? normalizeWorkspaceRel(String(new_file_path)) : (original_file_path ? normalizeWorkspaceRel(String(original_file_path)) : ""));
       return JSON.stringify({ status: "error", file: relFallback, note: String(e?.message || e) });
     }
   },
-  "lov-delete": async ({ file_path, confirm }: { file_path: string; confirm?: boolean }) => {
+});
+
+tools.register({
+  name: "lov-delete",
+  description:
+    "Use this tool to delete a file. The file path should be relative to the project root.",
+  args: z.object({
+    file_path: example(z.string(), "src/App.tsx"),
+  }),
+  handler: async ({ file_path }, ctx) => {
     try {
-      if (!ENABLE_DELETE) {
+      if (!config.get().enable_delete) {
         return JSON.stringify({ status: "not_enabled", tool: "lov-delete" });
       }
       const rel = normalizeWorkspaceRel(file_path);
-      const abs = safeJoin(WORKSPACE, rel);
-      const forbidden = isForbiddenPath(abs);
+      const abs = safeJoin(ctx.project.root, rel);
+      const forbidden = isForbiddenPath(ctx.project.root, abs);
       if (forbidden) return JSON.stringify({ status: "error", file: rel, note: forbidden });
       if (!fs.existsSync(abs)) return JSON.stringify({ status: "error", file: rel, note: "File not found. Use paths relative to workspace root, e.g. 'src/App.tsx' (no 'workspace/' prefix)." });
-      const stat = fs.statSync(abs);
-      const size = stat.size;
-      if (!confirm) {
-        return JSON.stringify({ status: "confirm_required", file: rel, note: `About to delete ${size} bytes. Re-run with confirm:true to proceed.` });
-      }
-      // Safety: do not actually delete here; return warning for chat confirmation flow
-      return JSON.stringify({ status: "confirm", file: rel, note: `Deletion requested for ${size} bytes. Confirm in chat to proceed.` });
+      if (!fs.statSync(abs).isFile()) return JSON.stringify({ status: "error", file: rel, note: "Only files can be deleted" });
+      // The file is only removed once the user confirms the request in the UI (it then goes to the trash)
+      const deletion = ctx.requestDeletion(rel);
+      return JSON.stringify({
+        status: "pending_confirmation",
+        file: rel,
+        deletion_id: deletion.id,
+        note: `Deletion of ${deletion.size} bytes is waiting for the user to confirm it in the UI. Do not assume the file is gone.`,
+      });
     } catch (e: any) {
       return JSON.stringify({ status: "error", file: String((file_path && normalizeWorkspaceRel(String(file_path))) || ""), note: String(e?.message || e) });
     }
   },
-  "lov-download-to-repo": async (args: { url: string; save_path?: string }) => {
+});
+
+tools.register({
+  name: "lov-download-to-repo",
+  description:
+    "Download a remote file (allow-listed domains only, max 5MB) and save it under workspace/public or workspace/src/assets.",
+  args: z.object({
+    url: example(z.string().url(), "https://raw.githubusercontent.com/user/repo/main/logo.png"),
+    save_path: example(z.string(), "public/images/logo.png").optional(),
+  }),
+  handler: async ({ url, save_path }, ctx) => {
     try {
-      if (!ENABLE_DOWNLOAD) {
+      if (!config.get().enable_download) {
         return JSON.stringify({ status: "not_enabled", tool: "lov-download-to-repo" });
       }
-      const url = String((args as any)?.url || "");
-      if (!url) return JSON.stringify({ status: "error", note: "Missing url" });
 
-      const publicDir = path.join(WORKSPACE, "public");
-      const assetsDir = path.join(WORKSPACE, "src", "assets");
+      const publicDir = path.join(ctx.project.root, "public");
+      const assetsDir = path.join(ctx.project.root, "src", "assets");
       const hasPublic = fs.existsSync(publicDir);
       const hasAssets = fs.existsSync(assetsDir);
 
       let targetAbs: string;
-      if ((args as any)?.save_path) {
-        const rel = normalizeWorkspaceRel(String((args as any).save_path));
-        const abs = safeJoin(WORKSPACE, rel);
+      if (save_path) {
+        const rel = normalizeWorkspaceRel(save_path);
+        const abs = safeJoin(ctx.project.root, rel);
         const insidePublic = hasPublic && isPathInside(abs, publicDir);
         const insideAssets = hasAssets && isPathInside(abs, assetsDir);
         if (!insidePublic && !insideAssets) {
@@ -661,49 +763,170 @@ const toolHandlers: Record<string, (args: any) => Promise<string>> = {
         }
       }
 
+      const relSaved = path.relative(ctx.project.root, targetAbs).replace(/\\\\/g, "/");
+      ctx.checkpoint.capture(relSaved);
       fs.mkdirSync(path.dirname(targetAbs), { recursive: true });
       fs.writeFileSync(targetAbs, data);
-      const relSaved = path.relative(WORKSPACE, targetAbs).replace(/\\\\/g, "/");
       return JSON.stringify({ status: "ok", file: relSaved, bytes: data.byteLength });
     } catch (e: any) {
       return JSON.stringify({ status: "error", note: String(e?.message || e) });
     }
   },
-  "lov-add-dependency": async (args: { packages: string[]; dev?: boolean; workspace?: string }) => {
+});
+
+tools.register({
+  name: "lov-copy-attachment",
+  description:
+    "Copy an image the user attached to this session (its id is named in the message, e.g. att_0123456789abcdef) into workspace/public or workspace/src/assets so the app can use it.",
+  args: z.object({
+    attachment_id: example(z.string().regex(ATTACHMENT_ID_RE), "att_0123456789abcdef"),
+    save_path: example(z.string(), "src/assets/hero.png").optional(),
+  }),
+  handler: async ({ attachment_id, save_path }, ctx) => {
+    try {
+      if (!ctx.sessionId) return JSON.stringify({ status: "error", note: "Attachments belong to a session; this request has none" });
+      if (ctx.propose) return JSON.stringify({ status: "error", note: "Copying attachments is not available in review mode" });
+      const attachment = ctx.project.attachments.get(ctx.sessionId, attachment_id);
+      if (!attachment) return JSON.stringify({ status: "error", note: `Unknown attachment: ${attachment_id}` });
+
+      const publicDir = path.join(ctx.project.root, "public");
+      const assetsDir = path.join(ctx.project.root, "src", "assets");
+      let targetAbs: string;
+      if (save_path) {
+        targetAbs = safeJoin(ctx.project.root, normalizeWorkspaceRel(save_path));
+        if (!isPathInside(targetAbs, publicDir) && !isPathInside(targetAbs, assetsDir)) {
+          return JSON.stringify({ status: "error", note: "save_path must be under workspace/public or workspace/src/assets" });
+        }
+      } else {
+        // public/ when the project has one, src/assets otherwise; named after the upload, URL-friendly,
+        // with a numeric suffix rather than replacing a file that is already there
+        const dir = fs.existsSync(publicDir) ? publicDir : assetsDir;
+        const base = path.basename(attachment.name, path.extname(attachment.name)).replace(/\s+/g, "-") || "image";
+        const ext = extensionFor(attachment.mime);
+        targetAbs = path.join(dir, base + ext);
+        for (let n = 2; fs.existsSync(targetAbs); n++) targetAbs = path.join(dir, `${base}-${n}${ext}`);
+      }
+      const ext = path.extname(targetAbs).toLowerCase();
+      const expected = extensionFor(attachment.mime);
+      if (ext !== expected && !(expected === ".jpg" && ext === ".jpeg")) {
+        return JSON.stringify({ status: "error", note: `save_path must end with ${expected} for a ${attachment.mime} image` });
+      }
+      const forbidden = isForbiddenPath(ctx.project.root, targetAbs);
+      if (forbidden) return JSON.stringify({ status: "error", note: forbidden });
+
+      const relSaved = path.relative(ctx.project.root, targetAbs).split(path.sep).join("/");
+      ctx.checkpoint.capture(relSaved);
+      fs.mkdirSync(path.dirname(targetAbs), { recursive: true });
+      fs.writeFileSync(targetAbs, ctx.project.attachments.read(attachment));
+      // Files in public/ are served from the site root; src/assets files are imported
+      const url = isPathInside(targetAbs, publicDir) ? "/" + path.relative(publicDir, targetAbs).split(path.sep).join("/") : undefined;
+      return JSON.stringify({ status: "ok", file: relSaved, bytes: attachment.size, url });
+    } catch (e: any) {
+      return JSON.stringify({ status: "error", note: String(e?.message || e) });
+    }
+  },
+});
+
+tools.register({
+  name: "lov-add-dependency",
+  description:
+    "Add one or more pinned dependencies (e.g., react@18.3.1). Blocked when dependency management is disabled.",
+  args: z.object({
+    packages: example(z.array(z.string()).min(1), ["react@18.3.1"]),
+    dev: example(z.boolean(), false).optional(),
+    workspace: example(z.string(), "workspace").optional(),
+  }),
+  handler: async ({ packages, dev, workspace }, ctx) => {
     try {
-      if (!ENABLE_DEPS) {
+      if (!config.get().enable_deps) {
         return JSON.stringify({ status: "not_enabled", tool: "lov-add-dependency" });
       }
-      const pkgs = Array.isArray((args as any)?.packages) ? (args as any).packages as string[] : [];
-      if (!pkgs.length) return JSON.stringify({ status: "error", note: "packages[] required" });
       const invalid: string[] = [];
-      for (const spec of pkgs) {
-        if (!isPinnedVersionSpec(spec)) invalid.push(spec);
+      for (const spec of packages) {
+        if (!isPinnedVersionSpec(spec) || !isValidPackageName(splitSpec(spec).name)) invalid.push(spec);
       }
       if (invalid.length) {
         return JSON.stringify({ status: "error", note: `Unpinned or invalid versions: ${invalid.join(", ")}` });
       }
-      // Intentionally do not modify package.json here.
+      const target = resolveDependencyTarget(ctx.project.root, workspace);
+      if (ctx.propose) return JSON.stringify({ status: "error", note: "Dependency changes are not available in review mode" });
+      const change = await ctx.project.dependencies.apply({
+        action: "add",
+        packages,
+        dev,
+        target,
+        sessionId: ctx.sessionId,
+        beforeWrite: () => captureDependencyFiles(ctx, target),
+      });
       const auditTip = "Tip: run `npm audit --omit=dev` after installing.";
-      return JSON.stringify({ status: "ok", note: "Validated pinned specs only (no changes applied)", audit: auditTip, packages: pkgs });
+      return dependencyResult(change, auditTip);
     } catch (e: any) {
       return JSON.stringify({ status: "error", note: String(e?.message || e) });
     }
   },
-  "lov-remove-dependency": async (args: { packages: string[]; dev?: boolean; workspace?: string }) => {
+});
+
+tools.register({
+  name: "lov-remove-dependency",
+  description:
+    "Remove one or more dependencies by name. Blocked when dependency management is disabled.",
+  args: z.object({
+    packages: example(z.array(z.string()).min(1), ["react"]),
+    dev: example(z.boolean(), false).optional(),
+    workspace: example(z.string(), "workspace").optional(),
+  }),
+  handler: async ({ packages, dev, workspace }, ctx) => {
     try {
-      if (!ENABLE_DEPS) {
+      if (!config.get().enable_deps) {
         return JSON.stringify({ status: "not_enabled", tool: "lov-remove-dependency" });
       }
-      const pkgs = Array.isArray((args as any)?.packages) ? (args as any).packages as string[] : [];
-      if (!pkgs.length) return JSON.stringify({ status: "error", note: "packages[] required" });
+      const invalid = packages.filter((name) => !isValidPackageName(name));
+      if (invalid.length) {
+        return JSON.stringify({ status: "error", note: `Invalid package names: ${invalid.join(", ")}` });
+      }
+      const target = resolveDependencyTarget(ctx.project.root, workspace);
+      if (ctx.propose) return JSON.stringify({ status: "error", note: "Dependency changes are not available in review mode" });
+      const change = await ctx.project.dependencies.apply({
+        action: "remove",
+        packages,
+        dev,
+        target,
+        sessionId: ctx.sessionId,
+        beforeWrite: () => captureDependencyFiles(ctx, target),
+      });
       const auditTip = "Tip: run `npm audit --omit=dev` after changes.";
-      return JSON.stringify({ status: "ok", note: "Validated package names only (no changes applied)", audit: auditTip, packages: pkgs });
+      return dependencyResult(change, auditTip);
     } catch (e: any) {
       return JSON.stringify({ status: "error", note: String(e?.message || e) });
     }
   },
-};
+});
+
+tools.register({
+  name: "lov-check",
+  description:
+    "Typecheck (tsc --noEmit) and build (vite build) the project to verify your edits. Returns diagnostics with file, line, column and message. Run it after non-trivial changes and fix any errors it reports.",
+  args: z.object({
+    steps: example(z.array(z.enum(["typecheck", "build"])).min(1), ["typecheck"])
+      .optional()
+      .describe("Which checks to run (default: both)"),
+  }),
+  handler: async ({ steps }, ctx) => {
+    try {
+      const result = await ctx.project.checker.run(steps);
+      return JSON.stringify({ status: result.ok ? "ok" : "failed", ...result });
+    } catch (e: any) {
+      return JSON.stringify({ status: "error", note: String(e?.message || e) });
+    }
+  },
+});
+
+tools.register({
+  name: "stripe--enable_stripe",
+  description: "Enable Stripe integration (stub - returns not enabled).",
+  args: z.object({}),
+  handler: async () => JSON.stringify({ status: "not_enabled", tool: "stripe--enable_stripe" }),
+});
 
 function isPinnedVersionSpec(spec: string): boolean {
   if (typeof spec !== "string" || !spec.trim()) return false;
@@ -718,101 +941,1215 @@ function isPinnedVersionSpec(spec: string): boolean {
   return true;
 }
 
+function isValidPackageName(name: string): boolean {
+  return name.length <= 214 && /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(name);
+}
+
+// Only the active project's package may be changed (never the engine or UI). The default project is an
+// npm workspace installed from the repo root; created projects install in their own directory.
+function resolveDependencyTarget(root: string, name: string | undefined): DependencyTarget {
+  const pkgName = JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf-8")).name as string;
+  if (name && name !== pkgName && name !== path.basename(root)) {
+    throw new Error(`Unknown workspace: ${name} (expected "${pkgName}")`);
+  }
+  const repoWorkspaces: string[] = JSON.parse(fs.readFileSync(path.join(REPO_ROOT, "package.json"), "utf-8")).workspaces ?? [];
+  const isRepoWorkspace = repoWorkspaces.includes(path.relative(REPO_ROOT, root).split(path.sep).join("/"));
+  return isRepoWorkspace
+    ? { name: pkgName, dir: root, installRoot: REPO_ROOT, workspace: pkgName }
+    : { name: pkgName, dir: root, installRoot: root, workspace: null };
+}
+
+// Snapshots what a dependency change rewrites into the turn checkpoint: package.json and the lockfile where
+// npm runs. A repo workspace's lockfile is the repo root's, outside the project, so checkpoints cannot hold it.
+function captureDependencyFiles(ctx: ToolContext, target: DependencyTarget): void {
+  ctx.checkpoint.capture("package.json");
+  const lockfile = path.relative(ctx.project.root, path.join(target.installRoot, "package-lock.json"));
+  if (!lockfile.startsWith("..")) ctx.checkpoint.capture(lockfile);
+}
+
+function dependencyResult(change: DependencyChange, audit: string): string {
+  const status = change.status === "applied" ? "ok" : "error";
+  const note =
+    change.status === "applied"
+      ? `Updated package.json and installed with ${change.installer}`
+      : `${change.note}${change.output ? `\n${change.output.slice(-1000)}` : ""}`;
+  return JSON.stringify({ status, file: "package.json", change_id: change.id, note, before: change.before, after: change.after, audit });
+}
+
+// Generated from the registry so the schemas sent to the model always match the validators
+const OPENAI_TOOLS = tools.openAITools();
+const TOOL_SCHEMA_TOKENS = estimateTextTokens(JSON.stringify(OPENAI_TOOLS)); // sent with every completion call
+
+// -----------------------------
+// Agent loop
+// -----------------------------
+// error: a completion call failed; aborted: the client went away. Both keep what the loop did so far.
+// context_budget_exceeded: tool results grew the prompt past the budget and no older turns were left to summarize.
+type StopReason = "completed" | "max_steps" | "budget_exceeded" | "context_budget_exceeded" | "error" | "aborted";
+
+// Optional progress callbacks and cancellation; when onDelta is set the completions are streamed.
+// compact is called between steps when the prompt is over context_budget_tokens, with the messages the loop
+// added so far; it returns the (possibly summarized) messages to put before them.
+type AgentHooks = {
+  signal?: AbortSignal;
+  compact?: (added: ProviderMessage[]) => Promise<ProviderMessage[]>;
+  onDelta?: (content: string) => void;
+  onToolCallStarted?: (call: { id: string; name: string; args: unknown }) => void;
+  onToolCallFinished?: (call: { id: string; name: string; result: unknown; duration_ms: number }) => void;
+};
+
+async function dispatchToolCall(call: ToolCall, ctx: ToolContext): Promise<string> {
+  const name = call.function?.name ?? "";
+  try {
+    if (tools.has(name)) {
+      return await tools.dispatch(name, call.function.arguments, ctx);
+    } else if (name.startsWith("secrets--") || name.startsWith("security--")) {
+      return JSON.stringify({ status: "not_enabled", tool: name });
+    } else {
+      return JSON.stringify({ status: "error", error: `Unknown tool: ${name}` });
+    }
+  } catch (e: any) {
+    return JSON.stringify({ status: "error", error: String(e?.message || e) });
+  }
+}
+
+function parseJsonOrRaw(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Keeps calling the model and dispatching its tool calls until it answers without tools,
+// or until the step cap or the tool-call budget is hit. Every completion call and tool run is metered.
+// A failed completion call or an abort ends the loop with the transcript so far, so it can still be recorded.
+async function runAgentLoop(provider: LLMProvider, withSystem: ProviderMessage[], ctx: ToolContext, meter: TurnMeter, hooks: AgentHooks = {}) {
+  const transcript: ProviderMessage[] = [...withSystem];
+  let toolCallsUsed = 0;
+  let steps = 0;
+  let lastMessage: AssistantMessage | null = null;
+  let error: string | undefined;
+  let baseLength = withSystem.length;
+
+  // Budgets are fixed for the whole request even if the config reloads meanwhile
+  const { max_agent_steps, max_tool_calls, context_budget_tokens } = config.get();
+  const finish = (stopReason: StopReason) => ({ message: lastMessage, stopReason, error, steps, toolCallsUsed, transcript, usage: meter.finish() });
+  while (steps < max_agent_steps) {
+    if (hooks.signal?.aborted) return finish("aborted");
+    // The first step was fitted before the loop; later ones carry this turn's tool results as well
+    if (steps > 0 && hooks.compact && estimateMessagesTokens(transcript) + TOOL_SCHEMA_TOKENS > context_budget_tokens) {
+      const base = await hooks.compact(transcript.slice(baseLength));
+      transcript.splice(0, baseLength, ...base);
+      baseLength = base.length;
+      if (estimateMessagesTokens(transcript) + TOOL_SCHEMA_TOKENS > context_budget_tokens) return finish("context_budget_exceeded");
+    }
+    steps++;
+    const started = Date.now();
+    let completion: Completion;
+    try {
+      completion = await provider.complete({ messages: transcript, tools: OPENAI_TOOLS, temperature: 0.3, signal: hooks.signal }, hooks.onDelta);
+    } catch (err: any) {
+      meter.llmCall({ model: provider.model, usage: null, latencyMs: Date.now() - started });
+      if (hooks.signal?.aborted) return finish("aborted");
+      error = String(err?.message || err);
+      return finish("error");
+    }
+    meter.llmCall({ model: completion.model, usage: completion.usage, latencyMs: Date.now() - started });
+    lastMessage = completion.message;
+    transcript.push(lastMessage);
+
+    const toolCalls = lastMessage.tool_calls ?? [];
+    if (!toolCalls.length) return finish("completed");
+
+    // Every tool_call_id needs a tool message, so calls past the budget (or after an abort) get an error result
+    let budgetExceeded = false;
+    for (const call of toolCalls) {
+      const name = String(call.function?.name ?? "");
+      let content: string;
+      const started = Date.now();
+      if (hooks.signal?.aborted) {
+        content = JSON.stringify({ status: "error", note: "Not run: the request was cancelled" });
+      } else if (toolCallsUsed >= max_tool_calls) {
+        budgetExceeded = true;
+        content = JSON.stringify({ status: "error", note: `Tool-call budget of ${max_tool_calls} exceeded` });
+      } else {
+        toolCallsUsed++;
+        hooks.onToolCallStarted?.({ id: call.id, name, args: parseJsonOrRaw(call.function?.arguments || "{}") });
+        content = await dispatchToolCall(call, ctx);
+        meter.tool({ id: call.id, name, duration_ms: Date.now() - started });
+      }
+      hooks.onToolCallFinished?.({ id: call.id, name, result: parseJsonOrRaw(content), duration_ms: Date.now() - started });
+      transcript.push({ role: "tool", tool_call_id: call.id, content });
+    }
+    if (budgetExceeded) return finish("budget_exceeded");
+    if (hooks.signal?.aborted) return finish("aborted");
+  }
+
+  return finish("max_steps");
+}
+
+// A fresh provider per request (the mock replays its script from the start each time)
+function newProvider(): LLMProvider {
+  return createProvider({
+    provider: LLM_PROVIDER,
+    model: process.env.OPENAI_MODEL || "gpt-4.1",
+    apiKey: process.env.OPENAI_API_KEY,
+    mockFixturePath: path.resolve(__dirname, process.env.MOCK_FIXTURE || path.join("fixtures", "mock", "default.json")),
+  });
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// The project overview as of now (cached until a file changes); null when project_context_max_chars is 0
+function projectOverview(project: ProjectContext): ProjectOverview | null {
+  const maxChars = config.get().project_context_max_chars;
+  if (!maxChars) return null;
+  try {
+    return project.overview.get(maxChars);
+  } catch (err: any) {
+    console.warn("[engine] project overview failed:", err?.message || err);
+    return null;
+  }
+}
+
+// Resolves the history to send: the stored session transcript (if any) plus the incoming messages,
+// behind the enforced system prompt, the project overview and the session's summary of older turns.
+// Client-sent system messages are dropped; the ones left are engine notes (e.g. manual edits).
+function prepareChat(data: z.infer<typeof ChatRequest>) {
+  const project = activeProject();
+  const { sessions, checkpoints, proposals, deletions, userEdits } = project;
+  const sent = data.messages.filter((m) => m.role !== "system");
+  let session: Session | null = null;
+  if (data.session_id) {
+    session = sessions.get(data.session_id);
+    if (!session) throw new HttpError(404, "Session not found");
+  }
+  const incoming = sent.map(({ pinned: _pinned, attachments: ids, ...m }) => {
+    if (!ids?.length) return m;
+    if (m.role !== "user") throw new HttpError(400, "Only user messages can have attachments");
+    if (!session) throw new HttpError(400, "Attachments need a session_id");
+    const refs: AttachmentRef[] = ids.map((id) => {
+      const attachment = project.attachments.get(session!.id, id);
+      if (!attachment) throw new HttpError(400, `Unknown attachment: ${id}`);
+      return { id, name: attachment.name, mime: attachment.mime };
+    });
+    return { ...m, attachments: refs };
+  }) as ProviderMessage[];
+  // Files the user saved from the UI since the last turn; the note is stored with the turn
+  const edits = userEdits.pending(session?.id);
+  if (edits.length) {
+    const files = [...new Set(edits.map((e) => e.file))];
+    incoming.unshift({
+      role: "system",
+      content:
+        `The user edited these files by hand since your last turn: ${files.join(", ")}. ` +
+        "Treat their current content as intended: re-read them before editing and do not revert the user's changes.",
+    });
+  }
+  const history = session ? [...session.messages, ...incoming] : incoming;
+  // Positions in history; pins on incoming messages are stored with the turn
+  const pinnedIncoming = sent.flatMap((m, i) => (m.pinned && m.role === "user" ? [history.length - sent.length + i] : []));
+  const pinned = [...(session?.pinned ?? []), ...pinnedIncoming];
+  const summary: ContextSummary | null = session?.summary ?? null;
+  const overview = projectOverview(project)?.text ?? null;
+  // Files this turn modifies are snapshotted here first, so the whole turn can be undone
+  const lastUser = [...incoming].reverse().find((m) => m.role === "user");
+  const prompt = typeof lastUser?.content === "string" ? lastUser.content : "";
+  const checkpoint = checkpoints.recorder({
+    label: prompt.trim().slice(0, 80),
+    sessionId: session?.id,
+    turn: session ? history.filter((m) => m.role === "user").length : undefined,
+  });
+  const review = data.review ?? config.get().review_mode_default;
+  const toolContext: ToolContext = {
+    project,
+    sessionId: session?.id,
+    checkpoint,
+    propose: review ? (change, tool) => proposals.propose(change, { tool, sessionId: session?.id }) : null,
+    requestDeletion: (file) => deletions.request(file, { sessionId: session?.id }),
+    consoleLogs: consoleLogs.snapshot(session?.id),
+    networkRequests: networkRequests.snapshot(session?.id),
+  };
+  return {
+    project,
+    session,
+    incoming,
+    prompt,
+    history,
+    pinned,
+    pinnedIncoming,
+    // Replaced by fitContext when it summarizes
+    summary,
+    summaryChanged: false,
+    overview,
+    withSystem: buildContext({ systemPrompt: SYSTEM_PROMPT, overview, messages: history, summary, pinned }),
+    meter: createTurnMeter(config.get().model_prices),
+    checkpoint,
+    toolContext,
+    userEditSeqs: edits.map((e) => e.seq),
+  };
+}
+
+// What the provider gets: user messages with attachments become text plus image parts. The text names each
+// attachment id so the model can pass it to lov-copy-attachment. Same length and order as prepared.withSystem.
+function withAttachmentParts(prepared: ReturnType<typeof prepareChat>): ProviderMessage[] {
+  const { attachments } = prepared.project;
+  return prepared.withSystem.map((m) => {
+    if (m.role !== "user" || !m.attachments?.length || !prepared.session) return m;
+    const sessionId = prepared.session.id;
+    const images: ContentPart[] = [];
+    const notes = m.attachments.map((ref) => {
+      const attachment = attachments.get(sessionId, ref.id);
+      if (!attachment) return `[Attachment ${ref.id} (${ref.name}) is no longer available]`;
+      images.push({ type: "image_url", image_url: { url: attachments.dataUrl(attachment) } });
+      return `[Attached image ${ref.id}: ${ref.name}, ${ref.mime}]`;
+    });
+    const text = [typeof m.content === "string" ? m.content : "", ...notes].filter(Boolean).join("\n");
+    return { role: "user", content: [{ type: "text", text }, ...images] };
+  });
+}
+
+// Keeps the prompt within context_budget_tokens: when it is over, older turns are folded into the running
+// summary (one extra completion call), while pinned messages and the latest context_keep_turns turns stay in full.
+// added is what the agent loop has appended in this turn so far (it always stays, like the rest of the turn).
+// The new summary is stored with the session in recordChat.
+async function fitContext(
+  prepared: ReturnType<typeof prepareChat>,
+  onSummarizing?: () => void,
+  added: ProviderMessage[] = [],
+): Promise<ContextInfo> {
+  const { context_budget_tokens: budget, context_keep_turns: keepTurns } = config.get();
+  const addedTokens = estimateMessagesTokens(added);
+  const info: ContextInfo = {
+    estimated_tokens: estimateMessagesTokens(prepared.withSystem) + addedTokens + TOOL_SCHEMA_TOKENS,
+    budget_tokens: budget,
+    summarized: false,
+    summarized_messages: 0,
+    summary_covers: prepared.summary?.message_count ?? 0,
+  };
+  if (info.estimated_tokens <= budget) return info;
+
+  const pinnedMessages = prepared.pinned.map((i) => prepared.history[i]).filter(Boolean);
+  const cut = planCompaction({
+    messages: [...prepared.history, ...added],
+    summary: prepared.summary,
+    fixedTokens: estimateTextTokens(SYSTEM_PROMPT) + estimateTextTokens(prepared.overview) + TOOL_SCHEMA_TOKENS + estimateMessagesTokens(pinnedMessages),
+    budget,
+    keepTurns,
+  });
+  if (cut === null) return info; // only the current turn is left; send it as is
+
+  onSummarizing?.();
+  const from = prepared.summary?.message_count ?? 0;
+  const pinned = new Set(prepared.pinned);
+  const folded = prepared.history.slice(from, cut).filter((_, i) => !pinned.has(from + i));
+  const result = await summarizeMessages(newProvider(), prepared.summary?.content ?? null, folded);
+  if (result.completion) {
+    prepared.meter.llmCall({ model: result.completion.model, usage: result.completion.usage, latencyMs: result.latencyMs, kind: "summary" });
+  }
+  prepared.summary = { content: result.content, message_count: cut, updated_at: new Date().toISOString() };
+  prepared.summaryChanged = true;
+  prepared.withSystem = buildContext({
+    systemPrompt: SYSTEM_PROMPT,
+    overview: prepared.overview,
+    messages: prepared.history,
+    summary: prepared.summary,
+    pinned: prepared.pinned,
+  });
+  return {
+    ...info,
+    estimated_tokens: estimateMessagesTokens(prepared.withSystem) + addedTokens + TOOL_SCHEMA_TOKENS,
+    summarized: true,
+    summarized_messages: cut - from,
+    summary_covers: cut,
+  };
+}
+
+// The agent loop's compact hook: fits the prompt again mid-turn and folds what it did into the turn's context info
+function compactMidTurn(prepared: ReturnType<typeof prepareChat>, context: ContextInfo, onSummarizing?: () => void) {
+  return async (added: ProviderMessage[]): Promise<ProviderMessage[]> => {
+    const info = await fitContext(prepared, onSummarizing, added);
+    context.estimated_tokens = info.estimated_tokens;
+    if (info.summarized) {
+      context.summarized = true;
+      context.summarized_messages += info.summarized_messages;
+      context.summary_covers = info.summary_covers;
+    }
+    return withAttachmentParts(prepared);
+  };
+}
+
+// With auto_check on, a turn that changed workspace files is verified before the response goes out
+async function autoCheck(prepared: ReturnType<typeof prepareChat>): Promise<CheckResult | null> {
+  if (!config.get().auto_check || !prepared.checkpoint.id) return null;
+  return prepared.project.checker.run();
+}
+
+// With git_autocommit on, a turn that changed files becomes one commit in the project's repo (if initialized).
+// A failed commit is logged but does not fail the turn.
+async function autoCommit(prepared: ReturnType<typeof prepareChat>): Promise<GitCommit | null> {
+  const { git } = prepared.project;
+  if (!config.get().git_autocommit || !prepared.checkpoint.id || !git.isRepo()) return null;
+  try {
+    return await git.commitAll((files) => turnCommitMessage(prepared.prompt, files, prepared.session?.id));
+  } catch (err: any) {
+    console.warn("[engine] auto-commit failed:", err?.message || err);
+    return null;
+  }
+}
+
+type AgentResult = Awaited<ReturnType<typeof runAgentLoop>>;
+
+// Stores the incoming messages and everything the loop added (assistant tool_calls, tool results, answer),
+// and the turn's usage (also for requests without a session). Called for failed turns too, since their
+// tools may already have changed files; result is null when the turn failed before the loop returned.
+function recordChat(prepared: ReturnType<typeof prepareChat>, result: AgentResult | null): void {
+  prepared.project.userEdits.acknowledge(prepared.userEditSeqs);
+  prepared.project.usage.record(prepared.session?.id, result?.usage ?? prepared.meter.finish());
+  if (!prepared.session) return;
+  const { sessions } = prepared.project;
+  const added = result ? result.transcript.slice(prepared.withSystem.length) : [];
+  sessions.append(prepared.session.id, [...prepared.incoming, ...added]);
+  if (prepared.summaryChanged && prepared.summary) sessions.setSummary(prepared.session.id, prepared.summary);
+  for (const index of prepared.pinnedIncoming) sessions.pin(prepared.session.id, index, true);
+}
+
 app.post("/chat", async (req, res) => {
   try {
     const parse = ChatRequest.safeParse(req.body);
     if (!parse.success) {
       return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
     }
-    const { messages } = parse.data;
+    const prepared = prepareChat(parse.data);
+    let context: ContextInfo;
+    let result: AgentResult | null = null;
+    try {
+      context = await fitContext(prepared);
+      result = await runAgentLoop(newProvider(), withAttachmentParts(prepared), prepared.toolContext, prepared.meter, {
+        compact: compactMidTurn(prepared, context),
+      });
+    } finally {
+      recordChat(prepared, result);
+    }
+    const commit = await autoCommit(prepared);
+    if (result.stopReason === "error") {
+      return res.status(502).json({
+        error: result.error,
+        stop_reason: result.stopReason,
+        steps: result.steps,
+        tool_calls: result.toolCallsUsed,
+        session_id: prepared.session?.id,
+        checkpoint_id: prepared.checkpoint.id,
+        commit,
+        usage: result.usage,
+      });
+    }
+    const check = await autoCheck(prepared);
+    return res.json({
+      message: result.message,
+      stop_reason: result.stopReason,
+      steps: result.steps,
+      tool_calls: result.toolCallsUsed,
+      session_id: prepared.session?.id,
+      checkpoint_id: prepared.checkpoint.id,
+      commit,
+      check,
+      context,
+      usage: result.usage,
+      session_usage: prepared.session ? prepared.project.usage.session(prepared.session.id).totals : null,
+    });
+  } catch (err: any) {
+    const status = err instanceof HttpError ? err.status : 500;
+    return res.status(status).json({ error: err?.message || "Server error" });
+  }
+});
+
+// Same exchange as /chat, reported as Server-Sent Events:
+// context_summarizing (only when older turns are summarized first), delta, tool_call_started, tool_call_finished,
+// check_started (auto_check only), then done (or error)
+app.post("/chat/stream", async (req, res) => {
+  const parse = ChatRequest.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  let prepared: ReturnType<typeof prepareChat>;
+  try {
+    prepared = prepareChat(parse.data);
+  } catch (err: any) {
+    const status = err instanceof HttpError ? err.status : 500;
+    return res.status(status).json({ error: err?.message || "Server error" });
+  }
 
-    // Prepend enforced system prompt, overriding any incoming system message
-    const userAndAssistantMessages = messages.filter((m) => m.role !== "system");
-    const withSystem = [
-      { role: "system", content: SYSTEM_PROMPT },
-      ...userAndAssistantMessages,
-    ];
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded && !res.destroyed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  // The loop stops at its next completion call or tool call once the client goes away. This listens on res:
+  // req's "close" fires as soon as the request body has been read.
+  const disconnected = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) disconnected.abort();
+  });
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || "gpt-4.1",
-      messages: withSystem as any,
-      tools: OPENAI_TOOLS,
-      temperature: 0.3,
+  try {
+    let context: ContextInfo;
+    let result: AgentResult | null = null;
+    try {
+      const onSummarizing = () => send("context_summarizing", {});
+      context = await fitContext(prepared, onSummarizing);
+      result = await runAgentLoop(newProvider(), withAttachmentParts(prepared), prepared.toolContext, prepared.meter, {
+        signal: disconnected.signal,
+        compact: compactMidTurn(prepared, context, onSummarizing),
+        onDelta: (content) => send("delta", { content }),
+        onToolCallStarted: (call) => send("tool_call_started", call),
+        onToolCallFinished: (call) => send("tool_call_finished", call),
+      });
+    } finally {
+      recordChat(prepared, result);
+    }
+    const commit = await autoCommit(prepared);
+    if (result.stopReason === "aborted") return;
+    if (result.stopReason === "error") {
+      send("error", {
+        error: result.error,
+        stop_reason: result.stopReason,
+        session_id: prepared.session?.id,
+        checkpoint_id: prepared.checkpoint.id,
+        commit,
+        usage: result.usage,
+      });
+      return;
+    }
+    if (config.get().auto_check && prepared.checkpoint.id) send("check_started", {});
+    const check = await autoCheck(prepared);
+    send("done", {
+      message: result.message,
+      stop_reason: result.stopReason,
+      steps: result.steps,
+      tool_calls: result.toolCallsUsed,
+      session_id: prepared.session?.id,
+      checkpoint_id: prepared.checkpoint.id,
+      commit,
+      check,
+      context,
+      usage: result.usage,
+      session_usage: prepared.session ? prepared.project.usage.session(prepared.session.id).totals : null,
     });
+  } catch (err: any) {
+    send("error", { error: err?.message || "Server error" });
+  } finally {
+    res.end();
+  }
+});
 
-    const assistantMessage = completion.choices[0]?.message;
-
-    // If tools are requested, dispatch, then follow-up with tool responses
-    if ((assistantMessage as any)?.tool_calls && Array.isArray((assistantMessage as any).tool_calls)) {
-      const toolCalls = (assistantMessage as any).tool_calls as Array<any>;
-      const toolMessages: any[] = [];
-
-      for (const call of toolCalls) {
-        const name = call.function?.name as string | undefined;
-        const argsStr = call.function?.arguments ?? "{}";
-        let content = "";
-        try {
-          const args = JSON.parse(argsStr);
-          if (name && toolHandlers[name]) {
-            content = await toolHandlers[name](args);
-          } else if (name && (name.startsWith("secrets--") || name.startsWith("security--") || name === "stripe--enable_stripe")) {
-            content = JSON.stringify({ status: "not_enabled", tool: name });
-          } else {
-            content = JSON.stringify({ error: `Unknown tool: ${name}` });
-          }
-        } catch (e: any) {
-          content = JSON.stringify({ error: String(e?.message || e) });
-        }
-        toolMessages.push({
-          role: "tool",
-          tool_call_id: call.id,
-          content,
-        });
-      }
+// -----------------------------
+// Project endpoints
+// -----------------------------
+const CreateProjectRequest = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    // A template id (GET /templates) with its variables, or the id of a project to copy.
+    // Without either, the built-in workspace project is copied.
+    template: z.string().optional(),
+    variables: z.record(z.string().max(200)).optional(),
+    from: z.string().optional(),
+    // Run the installer in the new project if some of its packages are not in the repo's node_modules
+    install: z.boolean().optional(),
+  })
+  .refine((d) => !(d.template && d.from), { message: "Pass either template or from, not both" });
 
-      const followUp = await openai.chat.completions.create({
-        model: process.env.OPENAI_MODEL || "gpt-4.1",
-        messages: ([...withSystem, assistantMessage, ...toolMessages] as any),
-        tools: OPENAI_TOOLS,
-        temperature: 0.3,
-      });
+app.get("/templates", (_req, res) => {
+  return res.json({
+    templates: templates.list().map((t) => ({ ...t, missing_dependencies: missingPackages(t.dependencies, PROJECTS_DIR) })),
+  });
+});
 
-      const finalMessage = followUp.choices[0]?.message;
-      return res.json({ message: finalMessage });
+app.get("/projects", (_req, res) => {
+  return res.json({ active: projects.active().id, projects: projects.list() });
+});
+
+// Responds with the project plus missing_dependencies (and the install result when install was requested)
+app.post("/projects", async (req, res) => {
+  const parse = CreateProjectRequest.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  const { name, template, variables, install } = parse.data;
+  const from = template ? null : projects.get(parse.data.from ?? DEFAULT_PROJECT_ID);
+  if (template && !templates.get(template)) return res.status(404).json({ error: "Template not found" });
+  if (!template && !from) return res.status(404).json({ error: "Source project not found" });
+  try {
+    const project = projects.create({
+      name,
+      template,
+      createdFrom: from?.id,
+      populate: (root, { id, port }) =>
+        template ? templates.instantiate(template, root, { name, id, port }, variables) : copyProjectFiles(from!.root, root),
+    });
+    let missing = missingDependencies(project.root);
+    let installResult = null;
+    if (install && missing.length) {
+      installResult = await installer.install({ cwd: project.root, workspace: null });
+      missing = missingDependencies(project.root);
     }
+    return res.status(201).json({ ...project, missing_dependencies: missing, install: installResult });
+  } catch (err: any) {
+    const status = err instanceof TemplateError ? 400 : 500;
+    return res.status(status).json({ error: err?.message || "Create failed" });
+  }
+});
+
+// Later sessions, tool calls and file routes use this project; a turn already running keeps its own
+app.post("/projects/:id/activate", async (req, res) => {
+  const previous = projects.active();
+  const project = projects.activate(req.params.id);
+  if (!project) return res.status(404).json({ error: "Project not found" });
+  if (previous.id !== project.id) {
+    await devServers.stop(previous.id);
+    if (config.get().preview_autostart) void devServers.start(project);
+  }
+  return res.json(project);
+});
 
-    // No tools requested, return the first assistant message
-    return res.json({ message: assistantMessage });
+// -----------------------------
+// Session endpoints
+// -----------------------------
+const SessionTitle = z.object({ title: z.string().max(200).optional() });
+
+app.get("/sessions", (_req, res) => {
+  const { sessions } = activeProject();
+  return res.json({ sessions: sessions.list() });
+});
+
+app.post("/sessions", (req, res) => {
+  const { sessions } = activeProject();
+  const parse = SessionTitle.safeParse(req.body ?? {});
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  return res.status(201).json(sessions.summarize(sessions.create(parse.data.title)));
+});
+
+app.get("/sessions/:id", (req, res) => {
+  const { sessions } = activeProject();
+  const session = sessions.get(req.params.id);
+  if (!session) return res.status(404).json({ error: "Session not found" });
+  return res.json(session);
+});
+
+app.patch("/sessions/:id", (req, res) => {
+  const { sessions } = activeProject();
+  const parse = SessionTitle.required().safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  const session = sessions.rename(req.params.id, parse.data.title);
+  if (!session) return res.status(404).json({ error: "Session not found" });
+  return res.json(sessions.summarize(session));
+});
+
+// -----------------------------
+// Session attachments (images for the next chat message)
+// -----------------------------
+// The image is the raw request body with its image/* Content-Type; ?name= is the original file name
+app.post("/sessions/:id/attachments", express.raw({ type: "image/*", limit: MAX_UPLOAD_BODY }), (req, res) => {
+  const { sessions, attachments } = activeProject();
+  if (!sessions.get(req.params.id)) return res.status(404).json({ error: "Session not found" });
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ error: "Send the image as the request body with an image/* Content-Type" });
+  }
+  try {
+    const attachment = attachments.save(req.params.id, {
+      name: typeof req.query.name === "string" ? req.query.name : "",
+      mime: String(req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase(),
+      data: req.body,
+    });
+    return res.status(201).json(attachment);
   } catch (err: any) {
-    const status = 500;
-    return res.status(status).json({ error: err?.message || "Server error" });
+    const status = err instanceof AttachmentError ? 400 : 500;
+    return res.status(status).json({ error: err?.message || "Upload failed" });
+  }
+});
+
+app.get("/sessions/:id/attachments", (req, res) => {
+  const { sessions, attachments } = activeProject();
+  if (!sessions.get(req.params.id)) return res.status(404).json({ error: "Session not found" });
+  return res.json({ attachments: attachments.list(req.params.id) });
+});
+
+app.get("/sessions/:id/attachments/:attachmentId", (req, res) => {
+  const { attachments } = activeProject();
+  const attachment = attachments.get(req.params.id, req.params.attachmentId);
+  if (!attachment) return res.status(404).json({ error: "Attachment not found" });
+  res.set("X-Content-Type-Options", "nosniff");
+  res.set("Cache-Control", "private, max-age=86400");
+  return res.type(attachment.mime).send(attachments.read(attachment));
+});
+
+// Pinned messages are always sent in full, even once older turns have been summarized
+const PinRequest = z.object({ pinned: z.boolean() });
+
+app.patch("/sessions/:id/messages/:index", (req, res) => {
+  const { sessions } = activeProject();
+  const parse = PinRequest.safeParse(req.body);
+  const index = Number(req.params.index);
+  if (!parse.success || !Number.isInteger(index) || index < 0) {
+    return res.status(400).json({ error: "Invalid request", details: parse.success ? undefined : parse.error.flatten() });
+  }
+  try {
+    const session = sessions.pin(req.params.id, index, parse.data.pinned);
+    if (!session) return res.status(404).json({ error: "Message not found" });
+    return res.json({ id: session.id, pinned: session.pinned ?? [] });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Pin failed" });
+  }
+});
+
+app.delete("/sessions/:id", (req, res) => {
+  const { sessions, attachments } = activeProject();
+  if (!sessions.remove(req.params.id)) return res.status(404).json({ error: "Session not found" });
+  attachments.removeSession(req.params.id);
+  return res.status(204).end();
+});
+
+// -----------------------------
+// Project overview (what the model sees after the system prompt)
+// -----------------------------
+app.get("/overview", (_req, res) => {
+  const overview = projectOverview(activeProject());
+  return res.json({ enabled: config.get().project_context_max_chars > 0, overview });
+});
+
+// -----------------------------
+// Usage stats (tokens, cost, latency)
+// -----------------------------
+// With session_id: that session's totals and per-turn records; without: the active project's totals per session
+app.get("/stats", (req, res) => {
+  const { usage, sessions } = activeProject();
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  if (!sessionId) return res.json(usage.summary());
+  if (!sessions.get(sessionId)) return res.status(404).json({ error: "Session not found" });
+  return res.json(usage.session(sessionId));
+});
+
+// -----------------------------
+// Checkpoint endpoints
+// -----------------------------
+app.get("/checkpoints", (req, res) => {
+  const { checkpoints } = activeProject();
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  return res.json({ checkpoints: checkpoints.list({ sessionId }) });
+});
+
+app.get("/checkpoints/:id/diff", (req, res) => {
+  const { checkpoints } = activeProject();
+  const files = checkpoints.diff(req.params.id);
+  if (!files) return res.status(404).json({ error: "Checkpoint not found" });
+  return res.json({ id: req.params.id, files });
+});
+
+app.post("/checkpoints/:id/restore", (req, res) => {
+  const { checkpoints } = activeProject();
+  try {
+    const result = checkpoints.restore(req.params.id);
+    if (!result) return res.status(404).json({ error: "Checkpoint not found" });
+    return res.json({ id: req.params.id, ...result });
+  } catch (err: any) {
+    return res.status(500).json({ error: err?.message || "Restore failed" });
+  }
+});
+
+// -----------------------------
+// Git history (local repo in the project root, no remote)
+// -----------------------------
+const GitLogQuery = z.object({ limit: z.coerce.number().int().min(1).max(200).default(50) });
+
+app.get("/git", async (_req, res) => {
+  const { git } = activeProject();
+  const initialized = git.isRepo();
+  return res.json({ initialized, autocommit: config.get().git_autocommit, head: initialized ? await git.head() : null });
+});
+
+app.post("/git/init", async (_req, res) => {
+  const { git } = activeProject();
+  if (git.isRepo()) return res.status(409).json({ error: "Git repository already initialized" });
+  try {
+    return res.status(201).json({ initialized: true, commit: await git.init() });
+  } catch (err: any) {
+    return res.status(500).json({ error: err?.message || "git init failed" });
+  }
+});
+
+app.get("/git/log", async (req, res) => {
+  const { git } = activeProject();
+  const parse = GitLogQuery.safeParse(req.query);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  if (!git.isRepo()) return res.status(409).json({ error: "Git repository not initialized" });
+  try {
+    return res.json({ commits: await git.log(parse.data.limit) });
+  } catch (err: any) {
+    return res.status(500).json({ error: err?.message || "git log failed" });
+  }
+});
+
+app.get("/git/commits/:sha", async (req, res) => {
+  const { git } = activeProject();
+  if (!git.isRepo()) return res.status(409).json({ error: "Git repository not initialized" });
+  try {
+    const shown = await git.show(req.params.sha);
+    if (!shown) return res.status(404).json({ error: "Commit not found" });
+    return res.json(shown);
+  } catch (err: any) {
+    return res.status(500).json({ error: err?.message || "git show failed" });
+  }
+});
+
+// Makes the working tree match the commit again, as a new commit on top. The files it touches are
+// checkpointed first, so the revert can also be undone with POST /checkpoints/:id/restore.
+app.post("/git/commits/:sha/revert", async (req, res) => {
+  const { git, checkpoints } = activeProject();
+  if (!git.isRepo()) return res.status(409).json({ error: "Git repository not initialized" });
+  const checkpoint = checkpoints.recorder({ label: `Before reverting to ${req.params.sha.slice(0, 7)}` });
+  try {
+    const result = await git.revertTo(req.params.sha, (files) => files.forEach((rel) => checkpoint.capture(rel)));
+    if (!result) return res.status(404).json({ error: "Commit not found" });
+    return res.json({ ...result, checkpoint_id: checkpoint.id });
+  } catch (err: any) {
+    return res.status(500).json({ error: err?.message || "Revert failed" });
+  }
+});
+
+// -----------------------------
+// Review mode: proposal endpoints
+// -----------------------------
+app.get("/proposals", (req, res) => {
+  const { proposals } = activeProject();
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  const status = typeof req.query.status === "string" ? req.query.status : undefined;
+  if (status && !["pending", "applied", "rejected", "conflict"].includes(status)) {
+    return res.status(400).json({ error: "Invalid status filter" });
+  }
+  return res.json({ proposals: proposals.list({ sessionId, status: status as Proposal["status"] | undefined }) });
+});
+
+app.post("/proposals/:id/approve", (req, res) => {
+  const { root, checkpoints, proposals } = activeProject();
+  try {
+    const pending = proposals.get(req.params.id);
+    if (!pending) return res.status(404).json({ error: "Proposal not found" });
+    // Re-check paths at apply time; the workspace may have changed since the proposal
+    for (const rel of pending.kind === "rename" ? [pending.file, pending.new_file] : [pending.file]) {
+      const forbidden = isForbiddenPath(root, safeJoin(root, rel));
+      if (forbidden) return res.status(400).json({ error: forbidden });
+    }
+    const recorder = checkpoints.recorder({ label: `Approved ${pending.tool} ${pending.file}`, sessionId: pending.session_id });
+    const proposal = proposals.approve(req.params.id, (rel) => recorder.capture(rel))!;
+    if (proposal.status === "conflict") return res.status(409).json({ error: proposal.note, proposal });
+    return res.json({ proposal, checkpoint_id: recorder.id });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Approve failed" });
+  }
+});
+
+app.post("/proposals/:id/reject", (req, res) => {
+  const { proposals } = activeProject();
+  try {
+    const proposal = proposals.reject(req.params.id);
+    if (!proposal) return res.status(404).json({ error: "Proposal not found" });
+    return res.json({ proposal });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Reject failed" });
+  }
+});
+
+// -----------------------------
+// Deletion requests (lov-delete) and trash
+// -----------------------------
+app.get("/deletions", (req, res) => {
+  const { deletions } = activeProject();
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  const status = typeof req.query.status === "string" ? req.query.status : undefined;
+  if (status && !["pending", "denied", "deleted", "restored", "conflict"].includes(status)) {
+    return res.status(400).json({ error: "Invalid status filter" });
+  }
+  return res.json({ deletions: deletions.list({ sessionId, status: status as Deletion["status"] | undefined }) });
+});
+
+app.post("/deletions/:id/confirm", (req, res) => {
+  const { root, deletions } = activeProject();
+  try {
+    const pending = deletions.get(req.params.id);
+    if (!pending) return res.status(404).json({ error: "Deletion not found" });
+    if (!config.get().enable_delete) return res.status(403).json({ error: "Deletion is not enabled" });
+    const forbidden = isForbiddenPath(root, safeJoin(root, pending.file));
+    if (forbidden) return res.status(400).json({ error: forbidden });
+    const deletion = deletions.confirm(req.params.id)!;
+    if (deletion.status === "conflict") return res.status(409).json({ error: deletion.note, deletion });
+    return res.json({ deletion });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Confirm failed" });
+  }
+});
+
+app.post("/deletions/:id/deny", (req, res) => {
+  const { deletions } = activeProject();
+  try {
+    const deletion = deletions.deny(req.params.id);
+    if (!deletion) return res.status(404).json({ error: "Deletion not found" });
+    return res.json({ deletion });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Deny failed" });
+  }
+});
+
+// Brings a confirmed deletion back out of the trash
+app.post("/deletions/:id/restore", (req, res) => {
+  const { deletions } = activeProject();
+  try {
+    const deletion = deletions.restore(req.params.id);
+    if (!deletion) return res.status(404).json({ error: "Deletion not found" });
+    return res.json({ deletion });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Restore failed" });
+  }
+});
+
+// -----------------------------
+// Workspace files (tree + read-only viewer)
+// -----------------------------
+// Same exclusions as the tools: node_modules, .git and .env files never show up
+app.get("/files", (req, res) => {
+  const { root, checkpoints, deletions } = activeProject();
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  const files = walkWorkspaceFiles(root)
+    .filter((abs) => !isForbiddenPath(root, abs))
+    .map((abs) => ({ path: path.relative(root, abs).split(path.sep).join("/"), size: fs.statSync(abs).size }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  // Files the session's (not undone) turns touched: added, modified or deleted since their first checkpoint
+  const changed: Record<string, "added" | "modified" | "deleted"> = {};
+  if (sessionId) {
+    // The oldest checkpoint that captured a file says whether it existed before the session touched it
+    const existedBefore = new Map<string, boolean>();
+    const turns = checkpoints.list({ sessionId }).filter((cp) => !cp.restored_at);
+    for (const cp of [...turns].reverse()) {
+      for (const f of cp.files) if (!existedBefore.has(f.path)) existedBefore.set(f.path, f.existed);
+    }
+    for (const d of deletions.list({ sessionId, status: "deleted" })) existedBefore.set(d.file, true);
+    for (const [rel, existed] of existedBefore) {
+      const exists = fs.existsSync(path.join(root, rel));
+      if (exists) changed[rel] = existed ? "modified" : "added";
+      else if (existed) changed[rel] = "deleted";
+    }
   }
+  return res.json({ files, changed });
+});
+
+app.get("/files/content", (req, res) => {
+  const { root } = activeProject();
+  try {
+    const rel = normalizeWorkspaceRel(typeof req.query.path === "string" ? req.query.path : "");
+    if (!rel) return res.status(400).json({ error: "path is required" });
+    const abs = safeJoin(root, rel);
+    const forbidden = isForbiddenPath(root, abs);
+    if (forbidden) return res.status(400).json({ error: forbidden });
+    if (!fs.existsSync(abs) || !fs.statSync(abs).isFile()) return res.status(404).json({ error: "File not found" });
+    const data = fs.readFileSync(abs);
+    const binary = data.subarray(0, 8000).includes(0);
+    const tooLarge = data.byteLength > MAX_VIEW_BYTES;
+    return res.json({
+      path: rel,
+      size: data.byteLength,
+      hash: hashContent(data),
+      binary,
+      too_large: tooLarge,
+      content: binary || tooLarge ? null : data.toString("utf-8"),
+    });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Read failed" });
+  }
+});
+
+// Saves a file edited in the UI. base_hash is the hash the editor loaded (null: new file);
+// if the file changed since (e.g. the assistant edited it) the save is rejected with 409.
+const SaveFileRequest = z.object({
+  path: z.string().min(1),
+  content: z.string(),
+  base_hash: z.string().nullable(),
+  session_id: z.string().optional(),
+});
+
+app.put("/files/content", (req, res) => {
+  const { root, sessions, checkpoints, userEdits } = activeProject();
+  const parse = SaveFileRequest.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  const { content, base_hash, session_id } = parse.data;
+  try {
+    const rel = normalizeWorkspaceRel(parse.data.path);
+    const abs = safeJoin(root, rel);
+    const forbidden = isForbiddenPath(root, abs);
+    if (forbidden) return res.status(400).json({ error: forbidden });
+    if (session_id && !sessions.get(session_id)) return res.status(404).json({ error: "Session not found" });
+    if (Buffer.byteLength(content, "utf-8") > config.get().max_write_bytes) {
+      return res.status(413).json({ error: "Content exceeds max_write_bytes" });
+    }
+    const current = fs.existsSync(abs) && fs.statSync(abs).isFile() ? hashContent(fs.readFileSync(abs)) : null;
+    if (current !== base_hash) {
+      return res.status(409).json({ error: "File changed on disk since it was loaded", current_hash: current });
+    }
+    const recorder = checkpoints.recorder({ label: `Manual edit ${rel}`, sessionId: session_id });
+    recorder.capture(rel);
+    fs.mkdirSync(path.dirname(abs), { recursive: true });
+    fs.writeFileSync(abs, content, "utf-8");
+    const hash = hashContent(content);
+    userEdits.record({ file: rel, session_id, hash });
+    return res.json({ path: rel, hash, checkpoint_id: recorder.id });
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Save failed" });
+  }
+});
+
+// -----------------------------
+// Workspace check (same as the lov-check tool)
+// -----------------------------
+const CheckRequest = z.object({ steps: z.array(z.enum(["typecheck", "build"])).min(1).optional() });
+
+app.post("/check", async (req, res) => {
+  const { checker } = activeProject();
+  const parse = CheckRequest.safeParse(req.body ?? {});
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  try {
+    return res.json(await checker.run(parse.data.steps));
+  } catch (err: any) {
+    return res.status(500).json({ error: err?.message || "Check failed" });
+  }
+});
+
+// -----------------------------
+// Dependency change history
+// -----------------------------
+app.get("/dependencies/changes", (req, res) => {
+  const { dependencies } = activeProject();
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  return res.json({ changes: dependencies.list({ sessionId }) });
+});
+
+app.get("/dependencies/changes/:id", (req, res) => {
+  const { dependencies } = activeProject();
+  const change = dependencies.get(req.params.id);
+  if (!change) return res.status(404).json({ error: "Dependency change not found" });
+  return res.json(change);
+});
+
+// -----------------------------
+// Preview telemetry ingestion (sent by the capture script in the workspace app)
+// -----------------------------
+const ConsoleReport = z.object({
+  session_id: z.string().max(100).optional(),
+  entries: z
+    .array(
+      z.object({
+        level: z.enum(["log", "info", "warn", "error", "debug", "uncaught", "unhandledrejection"]),
+        message: z.string().transform((m) => m.slice(0, 4000)),
+        stack: z.string().optional().transform((m) => m?.slice(0, 4000)),
+        url: z.string().optional().transform((u) => u?.slice(0, 2000)),
+        timestamp: z.number(),
+      }),
+    )
+    .max(200),
+});
+
+app.post("/preview/console", (req, res) => {
+  const parse = ConsoleReport.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  consoleLogs.push(parse.data.session_id, parse.data.entries);
+  return res.status(204).end();
+});
+
+app.get("/preview/console", (req, res) => {
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  const search = typeof req.query.search === "string" ? req.query.search : undefined;
+  return res.json({ entries: filterConsoleEntries(consoleLogs.snapshot(sessionId), search, CONSOLE_BUFFER_SIZE) });
+});
+
+const NetworkReport = z.object({
+  session_id: z.string().max(100).optional(),
+  entries: z
+    .array(
+      z.object({
+        method: z.string().max(20),
+        url: z.string().transform((u) => u.slice(0, 2000)),
+        status: z.number().int(),
+        duration_ms: z.number(),
+        request_body: z.string().optional().transform((b) => b?.slice(0, 4000)),
+        response_body: z.string().optional().transform((b) => b?.slice(0, 4000)),
+        error: z.string().optional().transform((e) => e?.slice(0, 2000)),
+        timestamp: z.number(),
+      }),
+    )
+    .max(200),
+});
+
+app.post("/preview/network", (req, res) => {
+  const parse = NetworkReport.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  networkRequests.push(parse.data.session_id, parse.data.entries);
+  return res.status(204).end();
+});
+
+app.get("/preview/network", (req, res) => {
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : undefined;
+  const search = typeof req.query.search === "string" ? req.query.search : undefined;
+  const statusClasses = typeof req.query.status_class === "string" ? req.query.status_class.split(",") : undefined;
+  return res.json({ entries: filterNetworkEntries(networkRequests.snapshot(sessionId), { search, statusClasses }, NETWORK_BUFFER_SIZE) });
+});
+
+// -----------------------------
+// Preview dev server (active project)
+// -----------------------------
+app.get("/preview/server", (_req, res) => {
+  const { project } = activeProject();
+  return res.json({ project_id: project.id, ...devServers.status(project.id) });
+});
+
+app.get("/preview/server/output", (_req, res) => {
+  const { project } = activeProject();
+  return res.json({ project_id: project.id, lines: devServers.output(project.id) });
+});
+
+// start returns while the server is still starting; poll GET /preview/server for ready or crashed
+app.post("/preview/server/:action", async (req, res) => {
+  const { project } = activeProject();
+  const action = req.params.action;
+  if (action === "start") return res.json({ project_id: project.id, ...(await devServers.start(project)) });
+  if (action === "stop") return res.json({ project_id: project.id, ...(await devServers.stop(project.id)) });
+  if (action === "restart") return res.json({ project_id: project.id, ...(await devServers.restart(project)) });
+  return res.status(404).json({ error: `Unknown action: ${action}` });
+});
+
+// -----------------------------
+// Admin: runtime config
+// -----------------------------
+// Set ENGINE_ADMIN_TOKEN to require "Authorization: Bearer <token>" on these routes. Without it they only
+// answer this machine, and only clients that are not web pages: browsers send Origin on cross-site requests.
+const ADMIN_TOKEN = (process.env.ENGINE_ADMIN_TOKEN || "").trim();
+
+function isLoopback(address: string | undefined): boolean {
+  const ip = (address ?? "").replace(/^::ffff:/, "");
+  return ip === "::1" || ip.startsWith("127.");
+}
+
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (ADMIN_TOKEN) {
+    if (req.header("authorization") !== `Bearer ${ADMIN_TOKEN}`) return res.status(401).json({ error: "Unauthorized" });
+    return next();
+  }
+  if (!isLoopback(req.socket.remoteAddress) || req.header("origin") !== undefined) {
+    return res.status(403).json({ error: "Admin routes without ENGINE_ADMIN_TOKEN only accept local requests that do not come from a web page" });
+  }
+  return next();
+}
+
+app.get("/admin/config", requireAdmin, (_req, res) => {
+  return res.json(describeConfig());
+});
+
+// Partial update, written to the config file. Keys set via env keep their env value.
+app.patch("/admin/config", requireAdmin, (req, res) => {
+  const parse = EngineConfigSchema.partial().safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: "Invalid request", details: parse.error.flatten() });
+  }
+  try {
+    config.update(parse.data);
+  } catch (err: any) {
+    return res.status(400).json({ error: err?.message || "Update failed" });
+  }
+  const { sources } = config.describe();
+  const shadowed = (Object.keys(parse.data) as ConfigKey[]).filter((k) => sources[k] === "env");
+  return res.json({ ...describeConfig(), shadowed_by_env: shadowed });
+});
+
+app.post("/admin/config/reload", requireAdmin, (_req, res) => {
+  const snapshot = config.reload();
+  if (snapshot.error) return res.status(400).json({ error: snapshot.error, config: describeConfig() });
+  return res.json(describeConfig());
 });
 
 // -----------------------------
 // Health endpoint
 // -----------------------------
+// Effective value and origin ("default" | "file" | "env") of every config key
+function describeConfig() {
+  const { values, sources, file, loaded_at, error } = config.describe();
+  const keys = Object.keys(values) as ConfigKey[];
+  return {
+    file,
+    loaded_at,
+    error,
+    values: Object.fromEntries(keys.map((k) => [k, { value: values[k], source: sources[k] }])),
+    // Keys whose effective value differs from what this process started with
+    restart_pending: RESTART_REQUIRED.filter((k) => values[k] !== STARTUP_CONFIG[k]),
+  };
+}
+
 app.get("/health", (_req, res) => {
+  const cfg = config.get();
+  const { project } = activeProject();
   return res.json({
-    download_enabled: ENABLE_DOWNLOAD,
-    deps_enabled: ENABLE_DEPS,
-    delete_enabled: ENABLE_DELETE,
+    download_enabled: cfg.enable_download,
+    deps_enabled: cfg.enable_deps,
+    deps_installer: DEPS_INSTALLER,
+    delete_enabled: cfg.enable_delete,
+    review_mode_default: cfg.review_mode_default,
+    agent: {
+      max_steps: cfg.max_agent_steps,
+      max_tool_calls: cfg.max_tool_calls,
+    },
+    config: describeConfig(),
     env: {
       source: ENV_SOURCE,
+      provider: LLM_PROVIDER,
       openai_key_present: OPENAI_KEY_PRESENT,
       model: process.env.OPENAI_MODEL || "gpt-4.1",
     },
-    workspace_root: WORKSPACE,
+    workspace_root: project.root,
+    project: { id: project.id, name: project.name, preview_port: project.preview_port },
   });
 });
 
-const PORT = 8787;
+const PORT = STARTUP_CONFIG.port;
 app.listen(PORT, () => {
   console.log(`engine listening on http://localhost:${PORT}`);
-  console.log(`workspace root: ${WORKSPACE}`);
+  console.log(`workspace root: ${projects.active().root}`);
+  if (config.get().preview_autostart) void devServers.start(projects.active());
 });
 
+// Dev servers run in their own process groups, so they do not get the terminal's Ctrl+C
+process.on("exit", () => devServers.stopAll());
+for (const sig of ["SIGINT", "SIGTERM"] as const) {
+  process.on(sig, () => process.exit(0));
+}
+
 // Export helpers for potential tests
 export { WORKSPACE, safeJoin, boundedDownload };
 
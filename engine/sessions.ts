@@ -0,0 +1,138 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import type { ProviderMessage } from "./providers.js";
+import { isPinnable, type ContextSummary } from "./context.js";
+
+// -----------------------------
+// Session types
+// -----------------------------
+export type SessionSummary = {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+};
+
+// Full transcript without the system prompt, including assistant tool_calls and tool results.
+// summary condenses the oldest messages for the model; pinned (message indexes) are always sent in full.
+export type Session = SessionSummary & { messages: ProviderMessage[]; summary?: ContextSummary; pinned?: number[] };
+
+export const DEFAULT_SESSION_TITLE = "New session";
+
+const SESSION_ID_RE = /^[a-f0-9-]{36}$/;
+
+function summarize(session: Session): SessionSummary {
+  const { messages, summary: _summary, pinned: _pinned, ...rest } = session;
+  return { ...rest, message_count: messages.length };
+}
+
+// One JSON file per session under dir
+export function createSessionStore(dir: string) {
+  function fileFor(id: string): string {
+    if (!SESSION_ID_RE.test(id)) throw new Error("Invalid session id");
+    return path.join(dir, `${id}.json`);
+  }
+
+  function write(session: Session): void {
+    fs.mkdirSync(dir, { recursive: true });
+    session.message_count = session.messages.length;
+    // Write-then-rename so a crash never leaves a half-written transcript
+    const file = fileFor(session.id);
+    fs.writeFileSync(file + ".tmp", JSON.stringify(session, null, 2), "utf-8");
+    fs.renameSync(file + ".tmp", file);
+  }
+
+  function get(id: string): Session | null {
+    if (!SESSION_ID_RE.test(id)) return null;
+    const file = fileFor(id);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Session;
+  }
+
+  function list(): SessionSummary[] {
+    if (!fs.existsSync(dir)) return [];
+    const sessions: SessionSummary[] = [];
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        sessions.push(summarize(JSON.parse(fs.readFileSync(path.join(dir, name), "utf-8"))));
+      } catch {
+        // skip unreadable files rather than failing the whole listing
+      }
+    }
+    return sessions.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  }
+
+  function create(title?: string): Session {
+    const now = new Date().toISOString();
+    const session: Session = {
+      id: crypto.randomUUID(),
+      title: title?.trim() || DEFAULT_SESSION_TITLE,
+      created_at: now,
+      updated_at: now,
+      message_count: 0,
+      messages: [],
+    };
+    write(session);
+    return session;
+  }
+
+  function rename(id: string, title: string): Session | null {
+    const session = get(id);
+    if (!session) return null;
+    session.title = title.trim() || DEFAULT_SESSION_TITLE;
+    session.updated_at = new Date().toISOString();
+    write(session);
+    return session;
+  }
+
+  function remove(id: string): boolean {
+    if (!SESSION_ID_RE.test(id)) return false;
+    const file = fileFor(id);
+    if (!fs.existsSync(file)) return false;
+    fs.unlinkSync(file);
+    return true;
+  }
+
+  // Appends to the transcript; an untitled session takes its title from the first user message
+  function append(id: string, messages: ProviderMessage[]): Session | null {
+    const session = get(id);
+    if (!session) return null;
+    session.messages.push(...messages);
+    if (session.title === DEFAULT_SESSION_TITLE) {
+      const firstUser = session.messages.find((m) => m.role === "user");
+      const text = typeof firstUser?.content === "string" ? firstUser.content.trim() : "";
+      if (text) session.title = text.replace(/\s+/g, " ").slice(0, 60);
+    }
+    session.updated_at = new Date().toISOString();
+    write(session);
+    return session;
+  }
+
+  function setSummary(id: string, summary: ContextSummary): Session | null {
+    const session = get(id);
+    if (!session) return null;
+    session.summary = summary;
+    write(session);
+    return session;
+  }
+
+  // Pins or unpins messages[index]; returns null for an unknown session or index, throws if it cannot be pinned
+  function pin(id: string, index: number, pinned: boolean): Session | null {
+    const session = get(id);
+    if (!session || !session.messages[index]) return null;
+    if (pinned && !isPinnable(session.messages[index])) throw new Error("Only user messages and final assistant answers can be pinned");
+    const set = new Set(session.pinned ?? []);
+    if (pinned) set.add(index);
+    else set.delete(index);
+    session.pinned = [...set].sort((a, b) => a - b);
+    write(session);
+    return session;
+  }
+
+  return { get, list, create, rename, remove, append, setSummary, pin, summarize };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
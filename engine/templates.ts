@@ -0,0 +1,163 @@
+import path from "node:path";
+import fs from "node:fs";
+import { z } from "zod";
+
+// -----------------------------
+// Project templates
+// -----------------------------
+// <dir>/<id>/template.json describes a template and <dir>/<id>/files/ holds its file tree.
+// Every template starts from WORKSPACE_FILES, copied as they are from the built-in workspace project so
+// there is one source for them, then <dir>/_shared/ (index.html, ...).
+const TemplateManifest = z.object({
+  name: z.string().min(1),
+  description: z.string().default(""),
+  variables: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/),
+        label: z.string().optional(),
+        default: z.string().default(""),
+      }),
+    )
+    .default([]),
+});
+
+export type TemplateVariable = z.infer<typeof TemplateManifest>["variables"][number];
+
+export type Template = {
+  id: string;
+  name: string;
+  description: string;
+  variables: TemplateVariable[];
+  dependencies: string[]; // from the template's package.json
+};
+
+// Filled in by the engine; templates cannot declare them
+export type BuiltinVariables = { name: string; id: string; port: number };
+
+const SHARED_DIR = "_shared";
+// The vite config with the preview capture plugin, its client script and the TS settings. server.port in the
+// vite config does not matter: the dev script and the engine pass each project's port with --port.
+const WORKSPACE_FILES = ["vite.config.ts", "src/lov-capture.ts", "tsconfig.json"];
+const TEMPLATE_ID_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+// Values land inside JSX text and string literals, so anything that could end either is refused
+const UNSAFE_VALUE_RE = /[{}<>'"`\\\r\n]/;
+
+export class TemplateError extends Error {}
+
+// {{name}} for every known variable; unknown names (and JSX like style={{ a: 1 }}) are left alone
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{([a-zA-Z][a-zA-Z0-9_]*)\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+function isBinary(buf: Buffer): boolean {
+  return buf.subarray(0, 8000).includes(0);
+}
+
+function copyTree(from: string, to: string, values: Record<string, string>): void {
+  for (const entry of fs.readdirSync(from, { withFileTypes: true })) {
+    const src = path.join(from, entry.name);
+    const dest = path.join(to, fill(entry.name, values));
+    if (entry.isDirectory()) {
+      fs.mkdirSync(dest, { recursive: true });
+      copyTree(src, dest, values);
+    } else if (entry.isFile()) {
+      const data = fs.readFileSync(src);
+      fs.writeFileSync(dest, isBinary(data) ? data : fill(data.toString("utf-8"), values));
+    }
+  }
+}
+
+// workspace is the root of the built-in project WORKSPACE_FILES are taken from
+export function createTemplateStore(dir: string, opts: { workspace: string }) {
+  function load(id: string): Template | null {
+    if (!TEMPLATE_ID_RE.test(id)) return null;
+    const manifestFile = path.join(dir, id, "template.json");
+    if (!fs.existsSync(manifestFile)) return null;
+    const manifest = TemplateManifest.parse(JSON.parse(fs.readFileSync(manifestFile, "utf-8")));
+    const pkgFile = path.join(dir, id, "files", "package.json");
+    const pkg = fs.existsSync(pkgFile) ? JSON.parse(fs.readFileSync(pkgFile, "utf-8")) : {};
+    return { id, ...manifest, dependencies: Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }).sort() };
+  }
+
+  function list(): Template[] {
+    if (!fs.existsSync(dir)) return [];
+    const templates: Template[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name === SHARED_DIR) continue;
+      try {
+        const template = load(entry.name);
+        if (template) templates.push(template);
+      } catch (e: any) {
+        console.warn(`[engine] skipping template ${entry.name}:`, e?.message || e);
+      }
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  function get(id: string): Template | null {
+    try {
+      return load(id);
+    } catch {
+      return null;
+    }
+  }
+
+  // Declared variables take the given value or their default (which may reference built-ins)
+  function resolveVariables(template: Template, builtins: BuiltinVariables, given: Record<string, string>): Record<string, string> {
+    const unknown = Object.keys(given).filter((k) => !template.variables.some((v) => v.name === k));
+    if (unknown.length) throw new TemplateError(`Unknown template variables: ${unknown.join(", ")}`);
+    const base: Record<string, string> = { name: builtins.name, id: builtins.id, port: String(builtins.port) };
+    const values = { ...base };
+    for (const v of template.variables) {
+      const value = given[v.name] ?? fill(v.default, base);
+      if (UNSAFE_VALUE_RE.test(value)) {
+        throw new TemplateError(`Value of ${v.name} cannot contain quotes, braces, angle brackets, backslashes or line breaks`);
+      }
+      values[v.name] = value;
+    }
+    if (UNSAFE_VALUE_RE.test(builtins.name)) {
+      throw new TemplateError("Project name cannot contain quotes, braces, angle brackets, backslashes or line breaks");
+    }
+    return values;
+  }
+
+  // Writes WORKSPACE_FILES, _shared/ and then the template's files into root (which must not exist yet)
+  function instantiate(id: string, root: string, builtins: BuiltinVariables, given: Record<string, string> = {}): void {
+    const template = get(id);
+    if (!template) throw new TemplateError(`Unknown template: ${id}`);
+    const values = resolveVariables(template, builtins, given);
+    fs.mkdirSync(root, { recursive: true });
+    for (const rel of WORKSPACE_FILES) {
+      const dest = path.join(root, rel);
+      fs.mkdirSync(path.dirname(dest), { recursive: true });
+      fs.copyFileSync(path.join(opts.workspace, rel), dest);
+    }
+    const shared = path.join(dir, SHARED_DIR);
+    if (fs.existsSync(shared)) copyTree(shared, root, values);
+    copyTree(path.join(dir, id, "files"), root, values);
+  }
+
+  return { list, get, instantiate };
+}
+
+export type TemplateStore = ReturnType<typeof createTemplateStore>;
+
+// Names from packages that are not installed in from or any parent node_modules (hoisting included)
+export function missingPackages(names: string[], from: string): string[] {
+  const installed = (name: string) => {
+    for (let dir = from; ; dir = path.dirname(dir)) {
+      if (fs.existsSync(path.join(dir, "node_modules", name, "package.json"))) return true;
+      if (path.dirname(dir) === dir) return false;
+    }
+  };
+  return names.filter((name) => !installed(name));
+}
+
+// Dependencies in root's package.json that node would not find
+export function missingDependencies(root: string): string[] {
+  const manifestFile = path.join(root, "package.json");
+  if (!fs.existsSync(manifestFile)) return [];
+  const pkg = JSON.parse(fs.readFileSync(manifestFile, "utf-8"));
+  return missingPackages(Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }), root);
+}
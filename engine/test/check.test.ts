@@ -0,0 +1,52 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseTscOutput, parseViteOutput } from "../check.js";
+
+const ROOT = "/work/app";
+
+test("parseTscOutput reads located errors and their continuation lines", () => {
+  const output = [
+    "src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+    "  The expected type comes from property 'count'.",
+    "/work/app/src/main.tsx(1,8): error TS2307: Cannot find module './missing'.",
+  ].join("\n");
+  assert.deepEqual(parseTscOutput(output, ROOT), [
+    {
+      source: "tsc",
+      file: "src/App.tsx",
+      line: 12,
+      column: 5,
+      code: "TS2322",
+      message: "Type 'string' is not assignable to type 'number'.\nThe expected type comes from property 'count'.",
+    },
+    { source: "tsc", file: "src/main.tsx", line: 1, column: 8, code: "TS2307", message: "Cannot find module './missing'." },
+  ]);
+});
+
+test("parseTscOutput keeps errors without a location", () => {
+  assert.deepEqual(parseTscOutput("error TS5083: Cannot read file 'tsconfig.json'.", ROOT), [
+    { source: "tsc", file: null, line: null, column: null, code: "TS5083", message: "Cannot read file 'tsconfig.json'." },
+  ]);
+  assert.deepEqual(parseTscOutput("", ROOT), []);
+});
+
+test("parseViteOutput reads esbuild errors and reports a location once", () => {
+  const output = [
+    "✘ [ERROR] Expected \";\" but found \"}\"",
+    "/work/app/src/App.tsx:3:10: ERROR: Expected \";\" but found \"}\"",
+    "file: /work/app/src/App.tsx:3:10",
+  ].join("\n");
+  assert.deepEqual(parseViteOutput(output, ROOT), [
+    { source: "vite", file: "src/App.tsx", line: 3, column: 10, message: "Expected \";\" but found \"}\"" },
+  ]);
+});
+
+test("parseViteOutput takes the message from the next line after a bare location", () => {
+  const output = ["file: /work/app/src/index.css:7:2", "", "Unclosed block"].join("\n");
+  assert.deepEqual(parseViteOutput(output, ROOT), [{ source: "vite", file: "src/index.css", line: 7, column: 2, message: "Unclosed block" }]);
+});
+
+test("parseViteOutput skips files outside the project and in node_modules", () => {
+  const output = ["/work/other/x.ts:1:1: ERROR: outside", "/work/app/node_modules/pkg/index.js:2:3: ERROR: dependency"].join("\n");
+  assert.deepEqual(parseViteOutput(output, ROOT), []);
+});
@@ -0,0 +1,33 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mergeThreeWay, unifiedDiff } from "../diff.js";
+
+test("unifiedDiff returns an empty string for identical texts", () => {
+  assert.equal(unifiedDiff("a\nb\n", "a\nb\n", "a/x.ts", "b/x.ts"), "");
+});
+
+test("unifiedDiff shows a changed line with its context", () => {
+  const diff = unifiedDiff("one\ntwo\nthree\n", "one\n2\nthree\n", "a/x.ts", "b/x.ts");
+  assert.equal(diff, ["--- a/x.ts", "+++ b/x.ts", "@@ -1,3 +1,3 @@", " one", "-two", "+2", " three", ""].join("\n"));
+});
+
+test("unifiedDiff diffs a new file against /dev/null", () => {
+  const diff = unifiedDiff("", "hello\n", "/dev/null", "b/new.ts");
+  assert.equal(diff, ["--- /dev/null", "+++ b/new.ts", "@@ -0,0 +1,1 @@", "+hello", ""].join("\n"));
+});
+
+test("unifiedDiff splits distant changes into separate hunks", () => {
+  const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+  const after = before.replace("line 2\n", "line two\n").replace("line 19\n", "line nineteen\n");
+  const hunks = unifiedDiff(before, after, "a/x.ts", "b/x.ts").split("\n").filter((l) => l.startsWith("@@"));
+  assert.deepEqual(hunks, ["@@ -1,5 +1,5 @@", "@@ -16,5 +16,5 @@"]);
+});
+
+test("mergeThreeWay keeps both sides' changes to different lines", () => {
+  const base = "a\nb\nc\nd\ne\n";
+  assert.equal(mergeThreeWay(base, "A\nb\nc\nd\ne\n", "a\nb\nc\nd\nE\n"), "A\nb\nc\nd\nE\n");
+});
+
+test("mergeThreeWay returns null when both sides change the same lines", () => {
+  assert.equal(mergeThreeWay("a\nb\nc\n", "a\nB\nc\n", "a\nbee\nc\n"), null);
+});
@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { createGitRepo } from "../git.js";
+
+function committedPaths(root: string): string[] {
+  const out = execFileSync("git", ["log", "--all", "--name-only", "--format="], {
+    env: { ...process.env, GIT_DIR: path.join(root, ".git"), GIT_WORK_TREE: root },
+    encoding: "utf-8",
+  });
+  return out.split("\n").filter(Boolean);
+}
+
+test("a revert neither commits nor deletes .env and node_modules the project does not ignore", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "engine-git-"));
+  try {
+    fs.writeFileSync(path.join(root, ".gitignore"), "dist\n", "utf-8");
+    fs.writeFileSync(path.join(root, "App.tsx"), "one\n", "utf-8");
+    const git = createGitRepo(root);
+    const initial = await git.init();
+    assert.ok(initial);
+
+    fs.writeFileSync(path.join(root, "App.tsx"), "two\n", "utf-8");
+    fs.writeFileSync(path.join(root, ".env"), "SECRET=1\n", "utf-8");
+    fs.mkdirSync(path.join(root, "node_modules", "pkg"), { recursive: true });
+    fs.writeFileSync(path.join(root, "node_modules", "pkg", "index.js"), "", "utf-8");
+    await git.commitAll("Edit App");
+    fs.writeFileSync(path.join(root, "App.tsx"), "three\n", "utf-8");
+
+    let changed: string[] = [];
+    const reverted = await git.revertTo(initial.sha, (files) => (changed = files));
+    assert.ok(reverted?.saved);
+    assert.deepEqual(changed, ["App.tsx"]);
+    assert.equal(fs.readFileSync(path.join(root, "App.tsx"), "utf-8"), "one\n");
+    assert.equal(fs.readFileSync(path.join(root, ".env"), "utf-8"), "SECRET=1\n");
+    assert.ok(fs.existsSync(path.join(root, "node_modules", "pkg", "index.js")));
+    const committed = committedPaths(root);
+    assert.ok(committed.includes("App.tsx"));
+    assert.deepEqual(committed.filter((p) => p === ".env" || p.startsWith("node_modules/")), []);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createGitignore, createGlobMatcher, GlobError } from "../glob.js";
+
+test("a pattern without a slash matches names at any depth", () => {
+  const match = createGlobMatcher("*.tsx");
+  assert.equal(match("App.tsx"), true);
+  assert.equal(match("src/components/Button.tsx"), true);
+  assert.equal(match("src/main.ts"), false);
+});
+
+test("a pattern with a slash is anchored at the root", () => {
+  const match = createGlobMatcher("src/**/*.ts");
+  assert.equal(match("src/main.ts"), true);
+  assert.equal(match("src/lib/util.ts"), true);
+  assert.equal(match("lib/src/main.ts"), false);
+});
+
+test("include patterns match the path itself, not its directories", () => {
+  const match = createGlobMatcher("src/*");
+  assert.equal(match("src/main.tsx"), true);
+  assert.equal(match("src/components/Button.tsx"), false);
+  assert.equal(createGlobMatcher("src/**")("src/components/Button.tsx"), true);
+});
+
+test("exclude patterns cover everything below a matching directory", () => {
+  const match = createGlobMatcher(undefined, "src/components");
+  assert.equal(match("src/components/ui/Button.tsx"), false);
+  assert.equal(match("src/main.tsx"), true);
+});
+
+test("a negated exclude keeps files, but not under an excluded directory", () => {
+  assert.equal(createGlobMatcher(undefined, ["*.log", "!keep.log"])("logs/keep.log"), true);
+  assert.equal(createGlobMatcher(undefined, ["src/", "!src/keep.ts"])("src/keep.ts"), false);
+});
+
+test("negated includes take matches back out", () => {
+  const match = createGlobMatcher(["*.tsx", "!**/ui/**"]);
+  assert.equal(match("src/App.tsx"), true);
+  assert.equal(match("src/components/ui/Button.tsx"), false);
+  assert.equal(createGlobMatcher("!*.css")("src/App.tsx"), true);
+});
+
+test("blank patterns are ignored and a bare negation is refused", () => {
+  assert.equal(createGlobMatcher(["", " "])("src/main.ts"), true);
+  assert.throws(() => createGlobMatcher("!"), GlobError);
+});
+
+test("createGitignore follows .gitignore rules and reloads when the file changes", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "engine-glob-"));
+  try {
+    const gitignore = createGitignore(root);
+    gitignore.reload();
+    assert.equal(gitignore.ignored("dist/index.js", false), false);
+
+    fs.writeFileSync(path.join(root, ".gitignore"), "# build output\ndist/\n*.log\n!important.log\n", "utf-8");
+    gitignore.reload();
+    assert.equal(gitignore.ignored("dist", true), true);
+    assert.equal(gitignore.ignored("dist", false), false);
+    assert.equal(gitignore.ignored("dist/index.js", false), true);
+    assert.equal(gitignore.ignored("logs/debug.log", false), true);
+    assert.equal(gitignore.ignored("logs/important.log", false), false);
+    assert.equal(gitignore.ignored("src/main.ts", false), false);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
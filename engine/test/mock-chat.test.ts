@@ -0,0 +1,102 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { spawn, type ChildProcess } from "node:child_process";
+import { fileURLToPath } from "node:url";
+
+// A /chat turn through the real engine, with the mock provider replaying fixtures/mock/default.json.
+// Engine state goes to a temporary DATA_DIR; the workspace is only read.
+const ENGINE_DIR = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const START_TIMEOUT_MS = 60 * 1000;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function startEngine(port: number, dataDir: string): Promise<ChildProcess> {
+  const child = spawn(process.execPath, ["--loader", "ts-node/esm/transpile-only", "server.ts"], {
+    cwd: ENGINE_DIR,
+    env: {
+      ...process.env,
+      LLM_PROVIDER: "mock",
+      MOCK_FIXTURE: path.join("fixtures", "mock", "default.json"),
+      DATA_DIR: dataDir,
+      PROJECTS_DIR: path.join(dataDir, "projects-root"),
+      ENGINE_CONFIG: path.join(dataDir, "config.json"),
+      ENGINE_PORT: String(port),
+      ENGINE_PREVIEW_AUTOSTART: "false",
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  return new Promise((resolve, reject) => {
+    let output = "";
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`engine did not start:\n${output}`));
+    }, START_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString("utf-8");
+      if (output.includes("engine listening")) {
+        clearTimeout(timer);
+        resolve(child);
+      }
+    };
+    child.stdout!.on("data", onData);
+    child.stderr!.on("data", onData);
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`engine exited with code ${code}:\n${output}`));
+    });
+  });
+}
+
+async function request(port: number, method: string, route: string, body?: unknown): Promise<{ status: number; json: any }> {
+  const res = await fetch(`http://127.0.0.1:${port}${route}`, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, json: await res.json() };
+}
+
+test("the mock provider drives a tool call through /chat", async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "engine-test-"));
+  const port = await freePort();
+  const engine = await startEngine(port, dataDir);
+  try {
+    const session = await request(port, "POST", "/sessions", { title: "mock" });
+    assert.equal(session.status, 201);
+
+    const chat = await request(port, "POST", "/chat", {
+      session_id: session.json.id,
+      messages: [{ role: "user", content: "mock: view the entry file" }],
+    });
+    assert.equal(chat.status, 200);
+    assert.equal(chat.json.stop_reason, "completed");
+    assert.equal(chat.json.steps, 2);
+    assert.equal(chat.json.tool_calls, 1);
+    assert.equal(chat.json.message.content, "The workspace renders a single App component from src/main.tsx.");
+    assert.equal(chat.json.usage.calls, 2);
+
+    // The stored transcript has the assistant's call and what lov-view returned for it
+    const stored = await request(port, "GET", `/sessions/${session.json.id}`);
+    const messages: any[] = stored.json.messages;
+    const call = messages.find((m) => m.role === "assistant" && m.tool_calls?.length)?.tool_calls[0];
+    assert.equal(call.function.name, "lov-view");
+    const result = messages.find((m) => m.role === "tool" && m.tool_call_id === call.id);
+    assert.match(result.content, /createRoot/);
+  } finally {
+    engine.kill();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+});
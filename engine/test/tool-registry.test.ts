@@ -0,0 +1,62 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { createToolRegistry, example, zodToJsonSchema } from "../tool-registry.js";
+
+function createRegistry() {
+  const calls: unknown[] = [];
+  const tools = createToolRegistry<{ user: string }>();
+  tools.register({
+    name: "echo",
+    description: "Echoes its arguments",
+    args: z.object({
+      text: z.string().min(1),
+      times: example(z.number().int().min(1).default(1), 2),
+    }),
+    handler: async (args, ctx) => {
+      calls.push(args);
+      return JSON.stringify({ status: "success", user: ctx.user, echo: args.text.repeat(args.times) });
+    },
+  });
+  return { tools, calls };
+}
+
+test("dispatch runs the handler with parsed arguments and defaults", async () => {
+  const { tools, calls } = createRegistry();
+  const result = JSON.parse(await tools.dispatch("echo", '{"text":"ab"}', { user: "u1" }));
+  assert.deepEqual(result, { status: "success", user: "u1", echo: "ab" });
+  assert.deepEqual(calls, [{ text: "ab", times: 1 }]);
+});
+
+test("dispatch reports unknown tools and malformed JSON without running a handler", async () => {
+  const { tools, calls } = createRegistry();
+  assert.deepEqual(JSON.parse(await tools.dispatch("nope", "{}", { user: "u1" })), { status: "error", tool: "nope", error: "Unknown tool: nope" });
+  assert.deepEqual(JSON.parse(await tools.dispatch("echo", "{text:", { user: "u1" })), { status: "error", tool: "echo", error: "Arguments are not valid JSON" });
+  assert.equal(calls.length, 0);
+});
+
+test("dispatch returns validation issues by path for invalid arguments", async () => {
+  const { tools, calls } = createRegistry();
+  const result = JSON.parse(await tools.dispatch("echo", '{"text":"","times":"2"}', { user: "u1" }));
+  assert.equal(result.status, "error");
+  assert.equal(result.error, "Invalid arguments");
+  assert.deepEqual(result.issues.map((i: { path: string }) => i.path), ["text", "times"]);
+  assert.equal(calls.length, 0);
+});
+
+test("register refuses duplicate names", () => {
+  const { tools } = createRegistry();
+  assert.throws(() => tools.register({ name: "echo", description: "", args: z.object({}), handler: async () => "" }), /registered twice/);
+});
+
+test("the generated schema marks defaulted args optional and keeps typed examples", () => {
+  const { tools } = createRegistry();
+  const [tool] = tools.openAITools();
+  assert.equal(tool.function.name, "echo");
+  assert.deepEqual(tool.function.parameters, {
+    type: "object",
+    properties: { text: { type: "string" }, times: { type: "integer", example: 2 } },
+    required: ["text"],
+  });
+  assert.deepEqual(zodToJsonSchema(z.enum(["a", "b"]).describe("Choice")), { type: "string", enum: ["a", "b"], description: "Choice" });
+});
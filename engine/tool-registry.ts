@@ -0,0 +1,121 @@
+import { z } from "zod";
+
+// -----------------------------
+// Zod -> OpenAI JSON schema
+// -----------------------------
+// Covers the zod types tool args use: objects, strings, numbers, booleans, arrays, enums,
+// optional/default wrappers and preprocess/refine effects.
+const EXAMPLES = new WeakMap<z.ZodTypeAny, unknown>();
+
+// Attaches an "example" to the generated JSON schema (OpenAI-style hint for the model); typed so that
+// examples are real values of the arg (false, 50), not strings
+export function example<T extends z.ZodTypeAny>(schema: T, value: z.output<T>): T {
+  EXAMPLES.set(schema, value);
+  return schema;
+}
+
+// Peels optional/default/effects wrappers; layers lists every level, outermost first
+function unwrap(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean; layers: z.ZodTypeAny[] } {
+  let inner = schema;
+  let optional = false;
+  const layers = [schema];
+  while (true) {
+    if (inner instanceof z.ZodOptional || inner instanceof z.ZodDefault) {
+      optional = true;
+      inner = inner._def.innerType;
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner._def.schema;
+    } else {
+      return { inner, optional, layers };
+    }
+    layers.push(inner);
+  }
+}
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { inner, layers } = unwrap(schema);
+  let out: Record<string, unknown>;
+  if (inner instanceof z.ZodObject) {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(inner.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!unwrap(value).optional) required.push(key);
+    }
+    out = { type: "object", properties, required };
+  } else if (inner instanceof z.ZodString) {
+    out = { type: "string" };
+  } else if (inner instanceof z.ZodNumber) {
+    out = { type: inner.isInt ? "integer" : "number" };
+  } else if (inner instanceof z.ZodBoolean) {
+    out = { type: "boolean" };
+  } else if (inner instanceof z.ZodArray) {
+    out = { type: "array", items: zodToJsonSchema(inner.element) };
+  } else if (inner instanceof z.ZodEnum) {
+    out = { type: "string", enum: inner.options };
+  } else {
+    throw new Error(`Unsupported zod type in tool schema: ${inner.constructor.name}`);
+  }
+  // Descriptions and examples may sit on any wrapper layer (.describe() returns a copy,
+  // so call example() after it)
+  const description = layers.find((l) => l.description)?.description;
+  if (description) out.description = description;
+  const withExample = layers.find((l) => EXAMPLES.has(l));
+  if (withExample) out.example = EXAMPLES.get(withExample);
+  return out;
+}
+
+// -----------------------------
+// Registry
+// -----------------------------
+export type ToolDefinition<S extends z.ZodTypeAny, C> = {
+  name: string;
+  description: string;
+  args: S;
+  handler: (args: z.infer<S>, ctx: C) => Promise<string>;
+};
+
+export type ValidationIssue = { path: string; message: string };
+
+export function createToolRegistry<C>() {
+  const tools = new Map<string, ToolDefinition<z.ZodTypeAny, C>>();
+
+  function register<S extends z.ZodTypeAny>(def: ToolDefinition<S, C>): void {
+    if (tools.has(def.name)) throw new Error(`Tool registered twice: ${def.name}`);
+    zodToJsonSchema(def.args); // fail at startup, not at first use, on unsupported schemas
+    tools.set(def.name, def as unknown as ToolDefinition<z.ZodTypeAny, C>);
+  }
+
+  function has(name: string): boolean {
+    return tools.has(name);
+  }
+
+  // Tool list for chat.completions (generated, so it always matches the validators)
+  function openAITools() {
+    return [...tools.values()].map((def) => ({
+      type: "function" as const,
+      function: { name: def.name, description: def.description, parameters: zodToJsonSchema(def.args) },
+    }));
+  }
+
+  // Parses and validates the raw JSON arguments, then runs the handler.
+  // Invalid arguments come back to the model as a structured error instead of reaching the handler.
+  async function dispatch(name: string, rawArgs: string, ctx: C): Promise<string> {
+    const def = tools.get(name);
+    if (!def) return JSON.stringify({ status: "error", tool: name, error: `Unknown tool: ${name}` });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawArgs || "{}");
+    } catch {
+      return JSON.stringify({ status: "error", tool: name, error: "Arguments are not valid JSON" });
+    }
+    const result = def.args.safeParse(parsed);
+    if (!result.success) {
+      const issues: ValidationIssue[] = result.error.issues.map((i) => ({ path: i.path.join(".") || "(root)", message: i.message }));
+      return JSON.stringify({ status: "error", tool: name, error: "Invalid arguments", issues });
+    }
+    return def.handler(result.data, ctx);
+  }
+
+  return { register, has, openAITools, dispatch };
+}
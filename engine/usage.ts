@@ -0,0 +1,161 @@
+import path from "node:path";
+import fs from "node:fs";
+import type { TokenUsage } from "./providers.js";
+
+// -----------------------------
+// Token, cost and latency accounting
+// -----------------------------
+// USD per million tokens
+export type ModelPrice = { input_per_mtok: number; output_per_mtok: number };
+
+export type LLMCallRecord = {
+  step: number;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number | null; // null when the model has no price or the provider reported no usage
+  kind?: "summary"; // context summarization rather than an agent step
+};
+
+export type ToolTiming = { id: string; name: string; duration_ms: number };
+
+export type UsageTotals = {
+  turns: number;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number; // priced calls only; see unpriced_calls
+  unpriced_calls: number;
+  llm_ms: number;
+  tool_ms: number;
+  duration_ms: number;
+};
+
+export type TurnUsage = UsageTotals & { at: string; llm_calls: LLMCallRecord[]; tools: ToolTiming[] };
+
+export type SessionUsage = { session_id: string; totals: UsageTotals; turns: TurnUsage[] };
+
+const NO_SESSION = "no-session"; // log for /chat requests without a session_id
+const SESSION_ID_RE = /^[a-f0-9-]{36}$/;
+
+function emptyTotals(): UsageTotals {
+  return { turns: 0, calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0, unpriced_calls: 0, llm_ms: 0, tool_ms: 0, duration_ms: 0 };
+}
+
+// Exact model name first, then the longest configured prefix (so "gpt-4.1-2025-04-14" uses "gpt-4.1")
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+function addTotals(into: UsageTotals, turn: UsageTotals): UsageTotals {
+  for (const key of Object.keys(into) as (keyof UsageTotals)[]) into[key] += turn[key];
+  return into;
+}
+
+// Collects one turn's completion calls and tool runs; prices are fixed when the turn starts
+export function createTurnMeter(prices: Record<string, ModelPrice>) {
+  const startedAt = Date.now();
+  const calls: LLMCallRecord[] = [];
+  const tools: ToolTiming[] = [];
+
+  function llmCall(call: { model: string; usage: TokenUsage | null; latencyMs: number; kind?: "summary" }): LLMCallRecord {
+    const price = priceFor(call.model, prices);
+    const prompt = call.usage?.prompt_tokens ?? 0;
+    const completion = call.usage?.completion_tokens ?? 0;
+    const record: LLMCallRecord = {
+      step: calls.length + 1,
+      model: call.model,
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      latency_ms: call.latencyMs,
+      cost_usd: price && call.usage ? (prompt * price.input_per_mtok + completion * price.output_per_mtok) / 1_000_000 : null,
+    };
+    if (call.kind) record.kind = call.kind;
+    calls.push(record);
+    return record;
+  }
+
+  function tool(timing: ToolTiming): void {
+    tools.push(timing);
+  }
+
+  function finish(): TurnUsage {
+    const prompt = calls.reduce((sum, c) => sum + c.prompt_tokens, 0);
+    const completion = calls.reduce((sum, c) => sum + c.completion_tokens, 0);
+    return {
+      at: new Date(startedAt).toISOString(),
+      turns: 1,
+      calls: calls.length,
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      total_tokens: prompt + completion,
+      cost_usd: calls.reduce((sum, c) => sum + (c.cost_usd ?? 0), 0),
+      unpriced_calls: calls.filter((c) => c.cost_usd === null).length,
+      llm_ms: calls.reduce((sum, c) => sum + c.latency_ms, 0),
+      tool_ms: tools.reduce((sum, t) => sum + t.duration_ms, 0),
+      duration_ms: Date.now() - startedAt,
+      llm_calls: calls,
+      tools,
+    };
+  }
+
+  return { llmCall, tool, finish };
+}
+
+export type TurnMeter = ReturnType<typeof createTurnMeter>;
+
+// One JSONL file per session under dir, one line per turn. Kept when a session is deleted,
+// so project totals still cover what was spent.
+export function createUsageLog(dir: string) {
+  function fileFor(sessionId: string | undefined): string {
+    const name = sessionId ?? NO_SESSION;
+    if (name !== NO_SESSION && !SESSION_ID_RE.test(name)) throw new Error("Invalid session id");
+    return path.join(dir, `${name}.jsonl`);
+  }
+
+  function read(file: string): TurnUsage[] {
+    if (!fs.existsSync(file)) return [];
+    const turns: TurnUsage[] = [];
+    for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        turns.push(JSON.parse(line));
+      } catch {
+        // skip a torn last line
+      }
+    }
+    return turns;
+  }
+
+  function record(sessionId: string | undefined, turn: TurnUsage): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(fileFor(sessionId), JSON.stringify(turn) + "\n", "utf-8");
+  }
+
+  function session(sessionId: string): SessionUsage {
+    const turns = read(fileFor(sessionId));
+    return { session_id: sessionId, totals: turns.reduce(addTotals, emptyTotals()), turns };
+  }
+
+  // Totals for the whole project plus one line per session, most expensive first
+  function summary(): { totals: UsageTotals; sessions: Array<{ session_id: string } & UsageTotals> } {
+    if (!fs.existsSync(dir)) return { totals: emptyTotals(), sessions: [] };
+    const sessions = fs
+      .readdirSync(dir)
+      .filter((name) => name.endsWith(".jsonl"))
+      .map((name) => ({ session_id: name.slice(0, -".jsonl".length), ...read(path.join(dir, name)).reduce(addTotals, emptyTotals()) }))
+      .sort((a, b) => b.cost_usd - a.cost_usd || b.total_tokens - a.total_tokens);
+    const totals = sessions.reduce((into, { session_id: _id, ...t }) => addTotals(into, t), emptyTotals());
+    return { totals, sessions };
+  }
+
+  return { record, session, summary };
+}
+
+export type UsageLog = ReturnType<typeof createUsageLog>;
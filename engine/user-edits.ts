@@ -0,0 +1,55 @@
+import path from "node:path";
+import fs from "node:fs";
+
+// -----------------------------
+// Manual edits made in the UI
+// -----------------------------
+// Kept until the assistant's next turn in the same session has been told about them
+export type UserEdit = {
+  seq: number;
+  file: string;
+  session_id?: string; // unset: saved without an active session, reported to whichever session runs next
+  hash: string | null; // content hash after the save
+  at: string;
+};
+
+// All pending edits live in one JSON file
+export function createUserEditLog(file: string) {
+  function read(): UserEdit[] {
+    if (!fs.existsSync(file)) return [];
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf-8")) as UserEdit[];
+    } catch {
+      return [];
+    }
+  }
+
+  function write(edits: UserEdit[]): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file + ".tmp", JSON.stringify(edits, null, 2), "utf-8");
+    fs.renameSync(file + ".tmp", file);
+  }
+
+  function record(edit: Omit<UserEdit, "seq" | "at">): UserEdit {
+    const edits = read();
+    const entry: UserEdit = { ...edit, seq: edits.reduce((max, e) => Math.max(max, e.seq), 0) + 1, at: new Date().toISOString() };
+    write([...edits, entry]);
+    return entry;
+  }
+
+  // Edits the next turn of sessionId should hear about: its own plus unassigned ones
+  function pending(sessionId: string | undefined): UserEdit[] {
+    return read().filter((e) => !e.session_id || e.session_id === sessionId);
+  }
+
+  // Drops edits once a turn has reported them
+  function acknowledge(seqs: number[]): void {
+    if (!seqs.length) return;
+    const done = new Set(seqs);
+    write(read().filter((e) => !done.has(e.seq)));
+  }
+
+  return { record, pending, acknowledge };
+}
+
+export type UserEditLog = ReturnType<typeof createUserEditLog>;
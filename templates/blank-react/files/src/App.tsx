@@ -0,0 +1,8 @@
+export default function App() {
+  return (
+    <main className="app">
+      <h1>{{title}}</h1>
+      <p>Edit src/App.tsx to get started.</p>
+    </main>
+  );
+}
@@ -0,0 +1,29 @@
+import Sidebar from './components/Sidebar';
+import StatCard from './components/StatCard';
+import BarChart from './components/BarChart';
+import OrdersTable from './components/OrdersTable';
+import { monthlyRevenue, recentOrders, stats } from './data/sample';
+
+export default function App() {
+  return (
+    <div className="flex min-h-screen bg-gray-100 text-gray-900">
+      <Sidebar active="Overview" />
+      <main className="flex-1 space-y-6 p-6">
+        <h1 className="text-2xl font-semibold">Overview</h1>
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          {stats.map((stat) => (
+            <StatCard key={stat.label} stat={stat} />
+          ))}
+        </div>
+        <section className="rounded-lg border bg-white p-4">
+          <h2 className="mb-4 font-medium">Revenue by month</h2>
+          <BarChart data={monthlyRevenue} />
+        </section>
+        <section className="rounded-lg border bg-white p-4">
+          <h2 className="mb-2 font-medium">Recent orders</h2>
+          <OrdersTable orders={recentOrders} />
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { formatMoney } from '../lib/format';
+
+type Point = { month: string; value: number };
+
+// Plain div bars scaled to the largest value; no chart library needed
+export default function BarChart({ data }: { data: Point[] }) {
+  const max = Math.max(...data.map((d) => d.value), 1);
+  return (
+    <div className="flex h-48 items-end gap-3">
+      {data.map((d) => (
+        <div key={d.month} className="flex flex-1 flex-col items-center gap-1">
+          <div className="w-full rounded-t bg-indigo-500" style={{ height: `${(d.value / max) * 100}%` }} title={formatMoney(d.value)} />
+          <span className="text-xs text-gray-500">{d.month}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
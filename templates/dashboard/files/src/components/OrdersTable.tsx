@@ -0,0 +1,38 @@
+import type { Order } from '../data/sample';
+import { formatMoney } from '../lib/format';
+import { cn } from '../lib/utils';
+
+const STATUS_CLASSES: Record<Order['status'], string> = {
+  paid: 'bg-green-100 text-green-700',
+  pending: 'bg-amber-100 text-amber-700',
+  refunded: 'bg-gray-100 text-gray-600',
+};
+
+export default function OrdersTable({ orders }: { orders: Order[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-gray-500">
+          <th className="py-2 font-medium">Order</th>
+          <th className="py-2 font-medium">Customer</th>
+          <th className="py-2 font-medium">Status</th>
+          <th className="py-2 font-medium">Date</th>
+          <th className="py-2 text-right font-medium">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {orders.map((order) => (
+          <tr key={order.id} className="border-b last:border-0">
+            <td className="py-2 font-mono">{order.id}</td>
+            <td className="py-2">{order.customer}</td>
+            <td className="py-2">
+              <span className={cn('rounded px-2 py-0.5 text-xs capitalize', STATUS_CLASSES[order.status])}>{order.status}</span>
+            </td>
+            <td className="py-2 text-gray-500">{order.date}</td>
+            <td className="py-2 text-right">{formatMoney(order.total)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,22 @@
+import { cn } from '../lib/utils';
+
+const items = ['Overview', 'Orders', 'Customers', 'Products', 'Settings'];
+
+export default function Sidebar({ active }: { active: string }) {
+  return (
+    <aside className="w-56 shrink-0 border-r bg-gray-50 p-4">
+      <div className="mb-6 px-2 text-lg font-semibold">{{title}}</div>
+      <nav className="space-y-1">
+        {items.map((item) => (
+          <a
+            key={item}
+            href="#"
+            className={cn('block rounded px-2 py-1.5 text-sm', item === active ? 'bg-gray-200 font-medium' : 'text-gray-600 hover:bg-gray-100')}
+          >
+            {item}
+          </a>
+        ))}
+      </nav>
+    </aside>
+  );
+}
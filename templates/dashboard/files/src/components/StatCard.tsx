@@ -0,0 +1,16 @@
+import type { Stat } from '../data/sample';
+import { formatMoney, formatNumber } from '../lib/format';
+import { cn } from '../lib/utils';
+
+export default function StatCard({ stat }: { stat: Stat }) {
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      <div className="text-sm text-gray-500">{stat.label}</div>
+      <div className="mt-1 text-2xl font-semibold">{stat.money ? formatMoney(stat.value) : formatNumber(stat.value)}</div>
+      <div className={cn('mt-1 text-xs', stat.change >= 0 ? 'text-green-600' : 'text-red-600')}>
+        {stat.change >= 0 ? '+' : ''}
+        {stat.change}% vs last month
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+export const CURRENCY = '{{currency}}';
+
+export type Stat = { label: string; value: number; change: number; money?: boolean };
+export type Order = { id: string; customer: string; status: 'paid' | 'pending' | 'refunded'; total: number; date: string };
+
+export const stats: Stat[] = [
+  { label: 'Revenue', value: 48250, change: 12.4, money: true },
+  { label: 'Orders', value: 1284, change: 4.1 },
+  { label: 'Customers', value: 932, change: -1.8 },
+  { label: 'Avg. order', value: 37.6, change: 2.3, money: true },
+];
+
+export const monthlyRevenue = [
+  { month: 'Jan', value: 3200 },
+  { month: 'Feb', value: 2900 },
+  { month: 'Mar', value: 3800 },
+  { month: 'Apr', value: 4100 },
+  { month: 'May', value: 3600 },
+  { month: 'Jun', value: 4700 },
+  { month: 'Jul', value: 5200 },
+  { month: 'Aug', value: 4900 },
+];
+
+export const recentOrders: Order[] = [
+  { id: '#1042', customer: 'Ada Lovelace', status: 'paid', total: 129.0, date: '2024-08-02' },
+  { id: '#1041', customer: 'Grace Hopper', status: 'pending', total: 64.5, date: '2024-08-02' },
+  { id: '#1040', customer: 'Alan Turing', status: 'paid', total: 212.4, date: '2024-08-01' },
+  { id: '#1039', customer: 'Katherine Johnson', status: 'refunded', total: 38.0, date: '2024-07-31' },
+  { id: '#1038', customer: 'Linus Torvalds', status: 'paid', total: 89.9, date: '2024-07-31' },
+];
@@ -0,0 +1,9 @@
+import { CURRENCY } from '../data/sample';
+
+export function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+export function formatMoney(value: number): string {
+  return CURRENCY + value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
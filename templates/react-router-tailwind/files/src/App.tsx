@@ -0,0 +1,17 @@
+import { Route, Routes } from 'react-router-dom';
+import Layout from './components/Layout';
+import Index from './pages/Index';
+import About from './pages/About';
+import NotFound from './pages/NotFound';
+
+export default function App() {
+  return (
+    <Routes>
+      <Route element={<Layout />}>
+        <Route path="/" element={<Index />} />
+        <Route path="/about" element={<About />} />
+        <Route path="*" element={<NotFound />} />
+      </Route>
+    </Routes>
+  );
+}
@@ -0,0 +1,33 @@
+import { NavLink, Outlet } from 'react-router-dom';
+import { cn } from '../lib/utils';
+
+const links = [
+  { to: '/', label: 'Home' },
+  { to: '/about', label: 'About' },
+];
+
+export default function Layout() {
+  return (
+    <div className="min-h-screen flex flex-col bg-white text-gray-900">
+      <header className="border-b">
+        <nav className="max-w-5xl mx-auto px-4 h-14 flex items-center gap-6">
+          <span className="font-semibold">{{title}}</span>
+          {links.map((link) => (
+            <NavLink
+              key={link.to}
+              to={link.to}
+              end
+              className={({ isActive }) => cn('text-sm', isActive ? 'text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-900')}
+            >
+              {link.label}
+            </NavLink>
+          ))}
+        </nav>
+      </header>
+      <main className="flex-1 max-w-5xl w-full mx-auto px-4 py-10">
+        <Outlet />
+      </main>
+      <footer className="border-t py-6 text-center text-xs text-gray-500">{{title}}</footer>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+// Joins class names, skipping falsy values: cn('px-2', active && 'font-bold')
+export function cn(...classes: Array<string | false | null | undefined>): string {
+  return classes.filter(Boolean).join(' ');
+}
@@ -0,0 +1,8 @@
+export default function About() {
+  return (
+    <section className="space-y-4">
+      <h1 className="text-3xl font-bold tracking-tight">About</h1>
+      <p className="text-gray-600">Add pages under src/pages and register them in src/App.tsx.</p>
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+import { Link } from 'react-router-dom';
+
+export default function Index() {
+  return (
+    <section className="space-y-4">
+      <h1 className="text-4xl font-bold tracking-tight">{{title}}</h1>
+      <p className="text-lg text-gray-600">{{tagline}}</p>
+      <Link to="/about" className="inline-block rounded bg-gray-900 px-4 py-2 text-sm text-white hover:bg-gray-700">
+        Learn more
+      </Link>
+    </section>
+  );
+}
@@ -0,0 +1,12 @@
+import { Link } from 'react-router-dom';
+
+export default function NotFound() {
+  return (
+    <section className="space-y-4 text-center">
+      <h1 className="text-3xl font-bold">Page not found</h1>
+      <Link to="/" className="text-sm text-blue-600 hover:underline">
+        Back to home
+      </Link>
+    </section>
+  );
+}
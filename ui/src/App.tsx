@@ -1,58 +1,516 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import SessionSidebar from './SessionSidebar';
+import ReviewPanel, { type Proposal } from './ReviewPanel';
+import DeletionPrompt, { type Deletion } from './DeletionPrompt';
+import FilePanel from './FilePanel';
+import ProjectSwitcher from './ProjectSwitcher';
+import PreviewPanel from './PreviewPanel';
+import NewProjectDialog from './NewProjectDialog';
+import UsageFooter from './UsageFooter';
+import {
+  ENGINE_URL,
+  attachmentUrl,
+  engineJson,
+  readEvents,
+  uploadAttachment,
+  type AttachmentRef,
+  type Project,
+  type SessionSummary,
+  type StoredMessage,
+  type TurnUsage,
+  type UsageTotals,
+} from './engine';
 
-type ChatMessage = { role: 'user' | 'assistant'; content: string };
+type ToolActivity = {
+  id: string;
+  name: string;
+  args?: any;
+  result?: { status?: string; file?: string; note?: string; [key: string]: any } | string;
+  finished: boolean;
+};
+
+type ChatMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+  // Set on user messages: URLs of the attached images
+  images?: string[];
+  tools?: ToolActivity[];
+  // Set on assistant messages: the turn number within the session and the checkpoint of its edits
+  turn?: number;
+  checkpointId?: string | null;
+  undone?: boolean;
+  // Automatic typecheck/build after the turn (engine auto_check); 'running' while it is in progress
+  check?: CheckSummary | 'running';
+  // Set when the engine condensed older turns into a summary before this one
+  contextNote?: string;
+};
+
+type Diagnostic = { file: string | null; line: number | null; column: number | null; message: string };
+type CheckSummary = { ok: boolean; steps: { step: string; ok: boolean; diagnostics: Diagnostic[] }[] };
+
+function describeCheck(check: CheckSummary | 'running'): string {
+  if (check === 'running') return 'Checking build…';
+  if (check.ok) return 'Typecheck and build passed';
+  const lines = check.steps.flatMap((s) =>
+    s.diagnostics.map((d) => (d.file ? `${d.file}:${d.line}:${d.column} ` : '') + d.message.split('\n')[0]),
+  );
+  return [`Check failed (${lines.length} problem${lines.length === 1 ? '' : 's'})`, ...lines.slice(0, 5)].join('\n');
+}
+
+type CheckpointInfo = { id: string; turn?: number; restored_at?: string };
+
+// An image picked or pasted into the input, uploaded when the message is sent
+type PendingImage = { file: File; url: string };
+
+// Same limits the engine enforces (MAX_ATTACHMENTS_PER_MESSAGE and the accepted types)
+const MAX_IMAGES = 4;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+function describeTool(t: ToolActivity): string {
+  const file = (typeof t.result === 'object' && t.result?.file) || t.args?.file_path || t.args?.new_file_path || '';
+  const status = !t.finished ? 'running…' : typeof t.result === 'object' ? t.result?.status || 'done' : 'done';
+  return `${t.name}${file ? ' ' + file : ''} — ${status}`;
+}
+
+function parseJsonOrRaw(text: string | null): any {
+  try {
+    return JSON.parse(text ?? '');
+  } catch (_) {
+    return text;
+  }
+}
+
+// Rebuilds the chat view from a stored transcript: tool calls and their results are
+// folded into the assistant message that follows them
+function toChatMessages(stored: StoredMessage[], sessionId: string): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  let pending: ToolActivity[] = [];
+  let turn = 0;
+  for (const m of stored) {
+    if (m.role === 'user') {
+      // A turn cut short (e.g. max_steps) ends with tool calls but no final answer
+      if (pending.length) out.push({ role: 'assistant', content: '', tools: pending, turn });
+      pending = [];
+      turn++;
+      const images = m.attachments?.map((a) => attachmentUrl(sessionId, a.id));
+      out.push({ role: 'user', content: m.content ?? '', ...(images?.length ? { images } : {}) });
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      for (const c of m.tool_calls) {
+        pending.push({ id: c.id, name: c.function.name, args: parseJsonOrRaw(c.function.arguments), finished: false });
+      }
+    } else if (m.role === 'tool') {
+      pending = pending.map((t) => (t.id === m.tool_call_id ? { ...t, result: parseJsonOrRaw(m.content), finished: true } : t));
+    } else if (m.role === 'assistant') {
+      out.push({ role: 'assistant', content: m.content ?? '', tools: pending, turn });
+      pending = [];
+    }
+  }
+  if (pending.length) out.push({ role: 'assistant', content: '', tools: pending, turn });
+  return out;
+}
 
 export default function App() {
   const [input, setInput] = useState('');
+  const [images, setImages] = useState<PendingImage[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [showNewProject, setShowNewProject] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [review, setReview] = useState(false);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [deletions, setDeletions] = useState<Deletion[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals | null>(null);
+  const [lastUsage, setLastUsage] = useState<TurnUsage | null>(null);
+  const [rightTab, setRightTab] = useState<'preview' | 'files'>('preview');
+  // Bumped whenever workspace files may have changed, so the file panel reloads
+  const [filesVersion, setFilesVersion] = useState(0);
+  const filesChanged = () => setFilesVersion((v) => v + 1);
+
+  const refreshProposals = async (id: string | null) => {
+    if (!id) return setProposals([]);
+    try {
+      const data = await engineJson<{ proposals: Proposal[] }>(`/proposals?session_id=${id}`);
+      setProposals(data.proposals.filter((p) => p.status === 'pending' || p.status === 'conflict'));
+    } catch (_) {
+      // keep the current list
+    }
+  };
+
+  const decideProposal = async (id: string, decision: 'approve' | 'reject') => {
+    try {
+      await engineJson(`/proposals/${id}/${decision}`, { method: 'POST' });
+    } catch (_) {
+      // a conflict is reported on the proposal itself after the refresh
+    }
+    refreshProposals(sessionId);
+    filesChanged();
+  };
+
+  const refreshDeletions = async (id: string | null) => {
+    if (!id) return setDeletions([]);
+    try {
+      const data = await engineJson<{ deletions: Deletion[] }>(`/deletions?session_id=${id}`);
+      setDeletions(data.deletions.filter((d) => d.status !== 'denied' && d.status !== 'restored'));
+    } catch (_) {
+      // keep the current list
+    }
+  };
+
+  const decideDeletion = async (id: string, action: 'confirm' | 'deny' | 'restore') => {
+    try {
+      await engineJson(`/deletions/${id}/${action}`, { method: 'POST' });
+    } catch (e: any) {
+      // conflicts show up on the request itself after the refresh
+      if (action === 'restore') window.alert('Restore failed: ' + (e?.message || 'request failed'));
+    }
+    refreshDeletions(sessionId);
+    filesChanged();
+  };
+
+  const refreshSessions = async () => {
+    try {
+      const data = await engineJson<{ sessions: SessionSummary[] }>('/sessions');
+      setSessions(data.sessions);
+    } catch (_) {
+      // engine not reachable yet; the list stays as it was
+    }
+  };
+
+  const refreshProjects = async () => {
+    try {
+      const data = await engineJson<{ active: string; projects: Project[] }>('/projects');
+      setProjects(data.projects);
+      setProjectId(data.active);
+    } catch (_) {
+      // engine not reachable yet
+    }
+  };
+
+  useEffect(() => {
+    refreshProjects();
+    refreshSessions();
+  }, []);
+
+  // Sessions, files and the preview all belong to the active project, so everything reloads
+  const switchProject = async (id: string) => {
+    if (loading || id === projectId) return;
+    try {
+      await engineJson(`/projects/${id}/activate`, { method: 'POST' });
+    } catch (e: any) {
+      return window.alert('Could not switch project: ' + (e?.message || 'request failed'));
+    }
+    newSession();
+    setProjectId(id);
+    refreshSessions();
+    filesChanged();
+  };
+
+  const projectCreated = async (project: Project) => {
+    setShowNewProject(false);
+    await refreshProjects();
+    await switchProject(project.id);
+  };
+
+  const previewPort = projects.find((p) => p.id === projectId)?.preview_port ?? 5173;
+
+  const selectSession = async (id: string) => {
+    if (loading) return;
+    try {
+      const data = await engineJson<{ messages: StoredMessage[] }>(`/sessions/${id}`);
+      const { checkpoints } = await engineJson<{ checkpoints: CheckpointInfo[] }>(`/checkpoints?session_id=${id}`);
+      const byTurn = new Map(checkpoints.filter((c) => c.turn !== undefined).map((c) => [c.turn, c]));
+      setSessionId(id);
+      refreshProposals(id);
+      refreshDeletions(id);
+      setLastUsage(null);
+      engineJson<{ totals: UsageTotals }>(`/stats?session_id=${id}`)
+        .then((stats) => setSessionUsage(stats.totals))
+        .catch(() => setSessionUsage(null));
+      setMessages(
+        toChatMessages(data.messages, id).map((m) => {
+          const cp = m.role === 'assistant' ? byTurn.get(m.turn) : undefined;
+          return cp ? { ...m, checkpointId: cp.id, undone: Boolean(cp.restored_at) } : m;
+        }),
+      );
+    } catch (e: any) {
+      window.alert('Could not load session: ' + (e?.message || 'request failed'));
+    }
+  };
+
+  const newSession = () => {
+    if (loading) return;
+    setSessionId(null);
+    setMessages([]);
+    setProposals([]);
+    setDeletions([]);
+    setSessionUsage(null);
+    setLastUsage(null);
+  };
+
+  const renameSession = async (id: string, title: string) => {
+    await engineJson(`/sessions/${id}`, { method: 'PATCH', body: JSON.stringify({ title }) }).catch(() => {});
+    refreshSessions();
+  };
+
+  const undoTurn = async (index: number) => {
+    const target = messages[index];
+    if (!target?.checkpointId || loading) return;
+    if (!window.confirm('Undo the file changes from this turn and every later turn?')) return;
+    try {
+      await engineJson(`/checkpoints/${target.checkpointId}/restore`, { method: 'POST' });
+      // Restoring a checkpoint also rolls back every later one
+      setMessages((all) => all.map((m, i) => (i >= index && m.checkpointId ? { ...m, undone: true } : m)));
+      filesChanged();
+    } catch (e: any) {
+      window.alert('Undo failed: ' + (e?.message || 'request failed'));
+    }
+  };
+
+  const deleteSession = async (id: string) => {
+    await engineJson(`/sessions/${id}`, { method: 'DELETE' }).catch(() => {});
+    if (id === sessionId) newSession();
+    refreshSessions();
+  };
+
+  // Applies an update to the in-progress assistant message (always the last one)
+  const updateLast = (fn: (m: ChatMessage) => ChatMessage) => {
+    setMessages((all) => [...all.slice(0, -1), fn(all[all.length - 1])]);
+  };
+
+  const addImages = (files: File[]) => {
+    const accepted = files.filter((f) => IMAGE_TYPES.includes(f.type));
+    if (accepted.length < files.length) window.alert('Only PNG, JPEG, GIF and WebP images can be attached');
+    const room = MAX_IMAGES - images.length;
+    if (accepted.length > room) window.alert(`At most ${MAX_IMAGES} images per message`);
+    setImages([...images, ...accepted.slice(0, Math.max(room, 0)).map((file) => ({ file, url: URL.createObjectURL(file) }))]);
+  };
+
+  const removeImage = (index: number) => {
+    URL.revokeObjectURL(images[index].url);
+    setImages(images.filter((_, i) => i !== index));
+  };
+
+  // Screenshots pasted from the clipboard are attached; pasted text goes into the input as usual
+  const pasteImages = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith('image/'));
+    if (!files.length) return;
+    e.preventDefault();
+    addImages(files.map((f, i) => (f.name && f.name !== 'image.png' ? f : new File([f], `pasted-${Date.now()}-${i + 1}.png`, { type: f.type }))));
+  };
 
   const send = async () => {
-    if (!input.trim()) return;
-    const next = [...messages, { role: 'user', content: input } as ChatMessage];
-    setMessages(next);
+    if ((!input.trim() && !images.length) || loading) return;
+    const attached = images;
+    const userMessage: ChatMessage = { role: 'user', content: input, ...(attached.length ? { images: attached.map((a) => a.url) } : {}) };
+    setMessages([...messages, userMessage, { role: 'assistant', content: '', tools: [] }]);
     setInput('');
+    setImages([]);
     setLoading(true);
+    let id = sessionId;
     try {
-      const res = await fetch('http://localhost:8787/chat', {
+      // The engine keeps the transcript, so only the new message is sent
+      if (!id) {
+        id = (await engineJson<SessionSummary>('/sessions', { method: 'POST', body: '{}' })).id;
+        setSessionId(id);
+      }
+      // Images are stored with the session first; the message refers to them by id
+      const refs: AttachmentRef[] = [];
+      for (const image of attached) refs.push(await uploadAttachment(id, image.file));
+      if (refs.length) {
+        const urls = refs.map((r) => attachmentUrl(id!, r.id));
+        setMessages((all) => all.map((m) => (m === userMessage ? { ...m, images: urls } : m)));
+        attached.forEach((a) => URL.revokeObjectURL(a.url));
+      }
+      const res = await fetch(ENGINE_URL + '/chat/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: next }),
+        body: JSON.stringify({
+          session_id: id,
+          review,
+          messages: [{ role: 'user', content: userMessage.content, ...(refs.length ? { attachments: refs.map((r) => r.id) } : {}) }],
+        }),
       });
-      let assistantContent = 'No response';
-      try {
-        const data = await res.json();
-        assistantContent = typeof data?.message?.content === 'string' ? data.message.content : JSON.stringify(data);
-      } catch (_) {
-        assistantContent = 'Invalid JSON response';
+      if (!res.ok || !res.body) {
+        const text = await res.text();
+        updateLast((m) => ({ ...m, content: 'Error: ' + (text || res.statusText) }));
+        return;
       }
-      setMessages((m) => [...m, { role: 'assistant', content: assistantContent }]);
+      await readEvents(res, (event, data) => {
+        if (event === 'delta') {
+          updateLast((m) => ({ ...m, content: m.content + (data?.content ?? '') }));
+        } else if (event === 'tool_call_started') {
+          updateLast((m) => ({
+            ...m,
+            // Model text before a tool round is narration; keep only the final answer
+            content: '',
+            tools: [...(m.tools ?? []), { id: data.id, name: data.name, args: data.args, finished: false }],
+          }));
+        } else if (event === 'tool_call_finished') {
+          updateLast((m) => {
+            const tools = m.tools ?? [];
+            const known = tools.some((t) => t.id === data.id);
+            const finished = { id: data.id, name: data.name, result: data.result, finished: true };
+            return {
+              ...m,
+              tools: known ? tools.map((t) => (t.id === data.id ? { ...t, ...finished } : t)) : [...tools, finished],
+            };
+          });
+        } else if (event === 'context_summarizing') {
+          updateLast((m) => ({ ...m, contextNote: 'Summarizing earlier messages…' }));
+        } else if (event === 'check_started') {
+          updateLast((m) => ({ ...m, check: 'running' }));
+        } else if (event === 'done') {
+          if (data?.usage) setLastUsage(data.usage);
+          if (data?.session_usage) setSessionUsage(data.session_usage);
+          updateLast((m) => {
+            let content = typeof data?.message?.content === 'string' ? data.message.content : m.content;
+            if (data?.stop_reason && data.stop_reason !== 'completed') {
+              content += `\n\n[stopped: ${data.stop_reason}]`;
+            }
+            const contextNote = data?.context?.summarized
+              ? `Earlier messages were summarized to fit the context window (${data.context.summary_covers} condensed so far)`
+              : undefined;
+            return { ...m, content: content || 'No response', checkpointId: data?.checkpoint_id, check: data?.check ?? undefined, contextNote };
+          });
+        } else if (event === 'error') {
+          // A turn that failed midway may still have changed files; keep its checkpoint restorable
+          if (data?.usage) setLastUsage(data.usage);
+          updateLast((m) => ({ ...m, content: 'Error: ' + (data?.error || 'request failed'), checkpointId: data?.checkpoint_id ?? m.checkpointId }));
+        }
+      });
     } catch (e: any) {
-      setMessages((m) => [...m, { role: 'assistant', content: 'Error: ' + (e?.message || 'request failed') }]);
+      updateLast((m) => ({ ...m, content: 'Error: ' + (e?.message || 'request failed') }));
     } finally {
       setLoading(false);
+      refreshSessions();
+      refreshProposals(id);
+      refreshDeletions(id);
+      filesChanged();
     }
   };
 
   return (
-    <div className="h-screen grid grid-cols-2">
-      <div className="h-full flex flex-col border-r">
+    <div className="h-screen grid grid-cols-[14rem_1fr_1fr]">
+      <SessionSidebar
+        sessions={sessions}
+        activeId={sessionId}
+        onSelect={selectSession}
+        onNew={newSession}
+        onRename={renameSession}
+        onDelete={deleteSession}
+      >
+        <ProjectSwitcher projects={projects} activeId={projectId} disabled={loading} onSwitch={switchProject} onNew={() => setShowNewProject(true)} />
+      </SessionSidebar>
+      {showNewProject && <NewProjectDialog onCreated={projectCreated} onClose={() => setShowNewProject(false)} />}
+      <div className="h-full min-h-0 flex flex-col border-r">
         <div className="flex-1 overflow-auto p-4 space-y-2">
           {messages.map((m, i) => (
             <div key={i} className={m.role === 'user' ? 'text-right' : 'text-left'}>
-              <div className={
-                'inline-block px-3 py-2 rounded ' +
-                (m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100')
-              }>
-                {m.content}
-              </div>
+              {m.contextNote && <div className="mb-1 text-xs italic text-gray-400">{m.contextNote}</div>}
+              {m.tools && m.tools.length > 0 && (
+                <ul className="mb-1 text-xs text-gray-500 space-y-0.5">
+                  {m.tools.map((t) => (
+                    <li key={t.id} className="font-mono">
+                      {describeTool(t)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {m.images && m.images.length > 0 && (
+                <div className="mb-1 flex justify-end gap-1">
+                  {m.images.map((src) => (
+                    <a key={src} href={src} target="_blank" rel="noreferrer">
+                      <img src={src} alt="" className="h-20 max-w-[10rem] object-cover rounded border" />
+                    </a>
+                  ))}
+                </div>
+              )}
+              {(m.content || m.role === 'assistant') && (
+                <div className={
+                  'inline-block px-3 py-2 rounded whitespace-pre-wrap ' +
+                  (m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100')
+                }>
+                  {m.content || (loading && i === messages.length - 1 ? '…' : '')}
+                </div>
+              )}
+              {m.check && (
+                <pre className={'mt-1 text-xs whitespace-pre-wrap ' + (m.check !== 'running' && !m.check.ok ? 'text-red-700' : 'text-gray-500')}>
+                  {describeCheck(m.check)}
+                </pre>
+              )}
+              {m.role === 'assistant' && m.checkpointId && (
+                <div className="mt-1 text-xs">
+                  {m.undone ? (
+                    <span className="text-gray-500">Changes undone</span>
+                  ) : (
+                    <button onClick={() => undoTurn(i)} disabled={loading} className="text-blue-600 hover:underline">
+                      Undo this turn
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
-        <div className="p-3 border-t flex gap-2">
+        <ReviewPanel
+          proposals={proposals}
+          onApprove={(id) => decideProposal(id, 'approve')}
+          onReject={(id) => decideProposal(id, 'reject')}
+        />
+        <DeletionPrompt
+          deletions={deletions}
+          onConfirm={(id) => decideDeletion(id, 'confirm')}
+          onDeny={(id) => decideDeletion(id, 'deny')}
+          onRestore={(id) => decideDeletion(id, 'restore')}
+        />
+        {images.length > 0 && (
+          <div className="px-3 pt-2 border-t flex gap-2">
+            {images.map((image, i) => (
+              <div key={image.url} className="relative">
+                <img src={image.url} alt={image.file.name} title={image.file.name} className="h-14 w-14 object-cover rounded border" />
+                <button
+                  onClick={() => removeImage(i)}
+                  title="Remove"
+                  className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-black text-white text-[10px] leading-4"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className={'p-3 flex gap-2 ' + (images.length ? '' : 'border-t')}>
+          <label className="flex items-center gap-1 text-xs text-gray-600" title="Queue file changes for approval instead of writing them">
+            <input type="checkbox" checked={review} onChange={(e) => setReview(e.target.checked)} />
+            Review
+          </label>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={IMAGE_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addImages(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={loading || images.length >= MAX_IMAGES}
+            title="Attach an image (or paste a screenshot)"
+            className="px-2 py-2 rounded border text-sm text-gray-600 disabled:opacity-50"
+          >
+            Image
+          </button>
           <input
             value={input}
             onChange={(e) => setInput(e.target.value)}
+            onPaste={pasteImages}
             onKeyDown={(e) => e.key === 'Enter' && send()}
             placeholder="Type a message"
             className="flex-1 border rounded px-3 py-2"
@@ -61,11 +519,28 @@ export default function App() {
             {loading ? 'Sending…' : 'Send'}
           </button>
         </div>
+        <UsageFooter session={sessionUsage} last={lastUsage} />
       </div>
-      <div className="h-full">
-        <iframe title="workspace" src="http://localhost:5173" className="w-full h-full"></iframe>
+      <div className="h-full min-h-0 flex flex-col">
+        <div className="flex border-b text-sm">
+          {(['preview', 'files'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setRightTab(tab)}
+              className={'px-4 py-2 capitalize ' + (rightTab === tab ? 'border-b-2 border-black font-medium' : 'text-gray-500')}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+        {/* Both stay mounted so switching tabs does not reload the preview */}
+        <div className={'flex-1 min-h-0 ' + (rightTab === 'preview' ? '' : 'hidden')}>
+          <PreviewPanel sessionId={sessionId} projectId={projectId} fallbackPort={previewPort} />
+        </div>
+        <div className={'flex-1 min-h-0 ' + (rightTab === 'files' ? '' : 'hidden')}>
+          <FilePanel sessionId={sessionId} refreshKey={filesVersion} onSaved={filesChanged} />
+        </div>
       </div>
     </div>
   );
 }
-
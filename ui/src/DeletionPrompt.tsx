@@ -0,0 +1,50 @@
+import React from 'react';
+
+export type Deletion = {
+  id: string;
+  file: string;
+  size: number;
+  status: 'pending' | 'denied' | 'deleted' | 'restored' | 'conflict';
+  note?: string;
+};
+
+type Props = {
+  deletions: Deletion[];
+  onConfirm: (id: string) => void;
+  onDeny: (id: string) => void;
+  onRestore: (id: string) => void;
+};
+
+// Deletions requested by the assistant, plus files it deleted this session (restorable from the trash)
+export default function DeletionPrompt({ deletions, onConfirm, onDeny, onRestore }: Props) {
+  if (!deletions.length) return null;
+  return (
+    <div className="border-t max-h-[30%] overflow-auto p-3 space-y-2 bg-red-50">
+      {deletions.map((d) => (
+        <div key={d.id} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate">
+            {d.status === 'deleted' ? 'Deleted ' : 'Delete '}
+            <span className="font-mono">{d.file}</span>
+            <span className="text-gray-500"> ({d.size} bytes)</span>
+          </span>
+          {d.status === 'conflict' && <span className="text-xs text-red-600">{d.note || 'conflict'}</span>}
+          {d.status === 'pending' && (
+            <button onClick={() => onConfirm(d.id)} className="px-2 py-1 rounded bg-red-600 text-white text-xs">
+              Delete
+            </button>
+          )}
+          {(d.status === 'pending' || d.status === 'conflict') && (
+            <button onClick={() => onDeny(d.id)} className="px-2 py-1 rounded border text-xs">
+              Keep
+            </button>
+          )}
+          {d.status === 'deleted' && (
+            <button onClick={() => onRestore(d.id)} className="px-2 py-1 rounded border text-xs">
+              Restore
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { engineJson } from './engine';
+import { languageFor, tokenize, TOKEN_CLASSES } from './highlight';
+
+type FileEntry = { path: string; size: number };
+type ChangeKind = 'added' | 'modified' | 'deleted';
+type FileContent = { path: string; size: number; hash: string; binary: boolean; too_large: boolean; content: string | null };
+
+type TreeNode = { name: string; path: string; children: TreeNode[]; file?: FileEntry };
+
+type Props = {
+  sessionId: string | null;
+  // Changes whenever the workspace may have changed (e.g. after each turn) to trigger a reload
+  refreshKey: number;
+  onSaved: () => void;
+};
+
+const CHANGE_MARKERS: Record<ChangeKind, { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-700' },
+  modified: { label: 'M', className: 'text-amber-600' },
+  deleted: { label: 'D', className: 'text-red-600' },
+};
+
+// Deleted files are kept in the tree (greyed out) so the session's full change set stays visible
+function buildTree(files: FileEntry[], deleted: string[]): TreeNode {
+  const root: TreeNode = { name: '', path: '', children: [] };
+  const entries = [...files.map((f) => ({ path: f.path, file: f as FileEntry | undefined })), ...deleted.map((p) => ({ path: p, file: undefined }))];
+  for (const entry of entries) {
+    let node = root;
+    const parts = entry.path.split('/');
+    parts.forEach((name, i) => {
+      const p = parts.slice(0, i + 1).join('/');
+      let child = node.children.find((c) => c.name === name);
+      if (!child) {
+        child = { name, path: p, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+    node.file = entry.file;
+  }
+  const sort = (n: TreeNode) => {
+    // Directories first, then files, each alphabetically
+    n.children.sort((a, b) => Number(!!a.file || !a.children.length) - Number(!!b.file || !b.children.length) || a.name.localeCompare(b.name));
+    n.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+function CodeView({ file }: { file: FileContent }) {
+  if (file.binary) return <div className="p-3 text-sm text-gray-500">Binary file ({file.size} bytes)</div>;
+  if (file.too_large || file.content === null) return <div className="p-3 text-sm text-gray-500">File too large to display ({file.size} bytes)</div>;
+  const lines = file.content.split('\n');
+  const tokens = tokenize(file.content, languageFor(file.path));
+  return (
+    <div className="flex text-xs font-mono">
+      <pre className="select-none text-right text-gray-400 px-2 py-2 border-r bg-gray-50">
+        {lines.map((_, i) => (
+          <div key={i}>{i + 1}</div>
+        ))}
+      </pre>
+      <pre className="flex-1 px-3 py-2 overflow-x-auto">
+        {tokens.map((t, i) => (
+          <span key={i} className={TOKEN_CLASSES[t.kind]}>
+            {t.text}
+          </span>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+// Workspace file tree with a highlighted viewer; files the session changed are marked A/M/D.
+// Text files can be edited in place; the save is rejected if the file changed since it was loaded.
+export default function FilePanel({ sessionId, refreshKey, onSaved }: Props) {
+  const [files, setFiles] = useState<FileEntry[]>([]);
+  const [changed, setChanged] = useState<Record<string, ChangeKind>>({});
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string | null>(null);
+  const [content, setContent] = useState<FileContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Draft text while editing; null when viewing
+  const [draft, setDraft] = useState<string | null>(null);
+  const [conflict, setConflict] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const query = sessionId ? `?session_id=${sessionId}` : '';
+    engineJson<{ files: FileEntry[]; changed: Record<string, ChangeKind> }>(`/files${query}`)
+      .then((data) => {
+        setFiles(data.files);
+        setChanged(data.changed);
+      })
+      .catch((e) => setError(e?.message || 'Could not load files'));
+  }, [sessionId, refreshKey]);
+
+  const loadSelected = () => {
+    if (!selected) return setContent(null);
+    engineJson<FileContent>(`/files/content?path=${encodeURIComponent(selected)}`)
+      .then((data) => {
+        setContent(data);
+        setError(null);
+      })
+      .catch((e) => {
+        setContent(null);
+        setError(e?.message || 'Could not load file');
+      });
+  };
+
+  // An open draft keeps the hash it was loaded with; refreshes only apply while viewing
+  useEffect(() => {
+    if (draft === null) loadSelected();
+  }, [selected, refreshKey]);
+
+  const select = (p: string) => {
+    if (draft !== null && draft !== content?.content && !window.confirm('Discard unsaved changes?')) return;
+    setDraft(null);
+    setConflict(false);
+    setSelected(p);
+  };
+
+  const save = async () => {
+    if (!content || draft === null) return;
+    setSaving(true);
+    try {
+      const saved = await engineJson<{ hash: string }>('/files/content', {
+        method: 'PUT',
+        body: JSON.stringify({ path: content.path, content: draft, base_hash: content.hash, session_id: sessionId ?? undefined }),
+      });
+      setContent({ ...content, content: draft, hash: saved.hash, size: new Blob([draft]).size });
+      setDraft(null);
+      setConflict(false);
+      onSaved();
+    } catch (e: any) {
+      if (/changed on disk/i.test(e?.message || '')) setConflict(true);
+      else window.alert('Save failed: ' + (e?.message || 'request failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Drops the draft and shows what is on disk now
+  const reload = () => {
+    setDraft(null);
+    setConflict(false);
+    loadSelected();
+  };
+
+  const tree = useMemo(
+    () => buildTree(files, Object.keys(changed).filter((p) => changed[p] === 'deleted')),
+    [files, changed],
+  );
+
+  const toggle = (p: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(p)) next.delete(p);
+      else next.add(p);
+      return next;
+    });
+  };
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    const isDir = !node.file && node.children.length > 0;
+    const change = changed[node.path];
+    const dirChanged = isDir && Object.keys(changed).some((p) => p.startsWith(node.path + '/'));
+    return (
+      <li key={node.path}>
+        <div
+          onClick={() => (isDir ? toggle(node.path) : node.file && select(node.path))}
+          style={{ paddingLeft: depth * 12 + 8 }}
+          className={
+            'flex items-center gap-1 pr-2 py-0.5 cursor-pointer truncate ' +
+            (selected === node.path ? 'bg-gray-200' : 'hover:bg-gray-100') +
+            (change === 'deleted' ? ' text-gray-400 line-through cursor-default' : '')
+          }
+        >
+          <span className="flex-1 truncate">
+            {isDir ? (collapsed.has(node.path) ? '▸ ' : '▾ ') : ''}
+            {node.name}
+          </span>
+          {change && <span className={'text-xs font-bold ' + CHANGE_MARKERS[change].className}>{CHANGE_MARKERS[change].label}</span>}
+          {dirChanged && <span className="text-xs text-amber-600">•</span>}
+        </div>
+        {isDir && !collapsed.has(node.path) && <ul>{node.children.map((c) => renderNode(c, depth + 1))}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <div className="h-full min-h-0 grid grid-cols-[14rem_1fr]">
+      <ul className="overflow-auto border-r text-sm py-2 bg-gray-50">{tree.children.map((n) => renderNode(n, 0))}</ul>
+      <div className="min-h-0 overflow-auto">
+        {selected && (
+          <div className="px-3 py-2 border-b text-sm bg-white sticky top-0 flex items-center gap-2">
+            <span className="flex-1 font-mono truncate">{selected}</span>
+            {content?.content != null && draft === null && (
+              <button onClick={() => setDraft(content.content)} className="px-2 py-1 rounded border text-xs">
+                Edit
+              </button>
+            )}
+            {draft !== null && (
+              <>
+                <button onClick={save} disabled={saving || conflict} className="px-2 py-1 rounded bg-black text-white text-xs">
+                  {saving ? 'Saving…' : 'Save'}
+                </button>
+                <button onClick={() => select(selected)} className="px-2 py-1 rounded border text-xs">
+                  Cancel
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {conflict && (
+          <div className="px-3 py-2 text-sm bg-red-50 text-red-700 flex items-center gap-2">
+            <span className="flex-1">This file changed on disk since you opened it. Your edit was not saved.</span>
+            <button onClick={reload} className="px-2 py-1 rounded border text-xs">
+              Reload (discard my edit)
+            </button>
+          </div>
+        )}
+        {error && <div className="p-3 text-sm text-red-600">{error}</div>}
+        {content && draft !== null && (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-[calc(100%-3rem)] p-3 font-mono text-xs outline-none resize-none"
+          />
+        )}
+        {content && draft === null && <CodeView file={content} />}
+        {!selected && <div className="p-3 text-sm text-gray-500">Select a file</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { engineJson, type Project } from './engine';
+
+type Template = {
+  id: string;
+  name: string;
+  description: string;
+  variables: { name: string; label?: string; default: string }[];
+  missing_dependencies: string[];
+};
+
+type Created = Project & { missing_dependencies: string[]; install: { ok: boolean; output: string } | null };
+
+type Props = {
+  onCreated: (project: Project) => void;
+  onClose: () => void;
+};
+
+// Shows a default the way the engine will fill it in, e.g. "{{name}}" -> the project name
+function previewDefault(value: string, name: string): string {
+  return value.replace(/\{\{name\}\}/g, name || 'project name');
+}
+
+// Picks a template, fills in its variables and creates the project
+export default function NewProjectDialog({ onCreated, onClose }: Props) {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [install, setInstall] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    engineJson<{ templates: Template[] }>('/templates')
+      .then((data) => {
+        setTemplates(data.templates);
+        setTemplateId((current) => current ?? data.templates[0]?.id ?? null);
+      })
+      .catch((e) => setError(e?.message || 'Could not load templates'));
+  }, []);
+
+  const template = templates.find((t) => t.id === templateId);
+
+  const create = async () => {
+    if (!template || !name.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      // Empty fields fall back to the template's defaults
+      const variables = Object.fromEntries(Object.entries(values).filter(([k, v]) => v.trim() && template.variables.some((tv) => tv.name === k)));
+      const created = await engineJson<Created>('/projects', {
+        method: 'POST',
+        body: JSON.stringify({ name: name.trim(), template: template.id, variables, install }),
+      });
+      if (created.missing_dependencies.length) {
+        window.alert(
+          `Created, but these packages are not installed: ${created.missing_dependencies.join(', ')}.\n` +
+            `Run npm install in ${created.root}.` +
+            (created.install && !created.install.ok ? `\n\n${created.install.output.slice(-500)}` : ''),
+        );
+      }
+      onCreated(created);
+    } catch (e: any) {
+      setError(e?.message || 'Create failed');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-10 bg-black/30 flex items-center justify-center" onClick={onClose}>
+      <div className="w-[32rem] max-h-[90vh] overflow-auto rounded bg-white p-4 space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-base font-medium">New project</h2>
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Project name"
+          className="w-full border rounded px-3 py-2"
+        />
+        <ul className="space-y-1">
+          {templates.map((t) => (
+            <li
+              key={t.id}
+              onClick={() => setTemplateId(t.id)}
+              className={'border rounded px-3 py-2 cursor-pointer ' + (t.id === templateId ? 'border-black bg-gray-50' : 'hover:bg-gray-50')}
+            >
+              <div className="font-medium">{t.name}</div>
+              <div className="text-xs text-gray-500">{t.description}</div>
+            </li>
+          ))}
+        </ul>
+        {template?.variables.map((v) => (
+          <label key={v.name} className="block">
+            <span className="text-xs text-gray-600">{v.label || v.name}</span>
+            <input
+              value={values[v.name] ?? ''}
+              onChange={(e) => setValues({ ...values, [v.name]: e.target.value })}
+              placeholder={previewDefault(v.default, name.trim())}
+              className="w-full border rounded px-2 py-1"
+            />
+          </label>
+        ))}
+        {template && template.missing_dependencies.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-amber-700">
+            <input type="checkbox" checked={install} onChange={(e) => setInstall(e.target.checked)} />
+            Install missing packages ({template.missing_dependencies.join(', ')})
+          </label>
+        )}
+        {error && <div className="text-red-600">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1 rounded border">
+            Cancel
+          </button>
+          <button onClick={create} disabled={creating || !template || !name.trim()} className="px-3 py-1 rounded bg-black text-white">
+            {creating ? 'Creating…' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
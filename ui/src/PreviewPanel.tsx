@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { engineJson } from './engine';
+
+type ServerState = 'stopped' | 'starting' | 'ready' | 'crashed';
+type ServerStatus = {
+  project_id: string;
+  state: ServerState;
+  port: number | null;
+  started_at?: string;
+  ready_at?: string;
+  exit_code?: number | null;
+  error?: string;
+};
+
+type Props = {
+  sessionId: string | null;
+  projectId: string | null;
+  // Used while the engine is not running the server (e.g. started by hand)
+  fallbackPort: number;
+};
+
+const STATE_STYLES: Record<ServerState, { label: string; className: string }> = {
+  stopped: { label: 'Stopped', className: 'bg-gray-400' },
+  starting: { label: 'Starting…', className: 'bg-amber-500' },
+  ready: { label: 'Running', className: 'bg-green-600' },
+  crashed: { label: 'Crashed', className: 'bg-red-600' },
+};
+
+const POLL_MS = 2000;
+
+// The active project's preview with the state of the dev server the engine supervises
+export default function PreviewPanel({ sessionId, projectId, fallbackPort }: Props) {
+  const [status, setStatus] = useState<ServerStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = () =>
+      engineJson<ServerStatus>('/preview/server')
+        .then((data) => !cancelled && setStatus(data))
+        .catch(() => !cancelled && setStatus(null));
+    poll();
+    const timer = setInterval(poll, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [projectId]);
+
+  const act = async (action: 'start' | 'restart' | 'stop') => {
+    setBusy(true);
+    try {
+      setStatus(await engineJson<ServerStatus>(`/preview/server/${action}`, { method: 'POST' }));
+    } catch (e: any) {
+      window.alert(`Could not ${action} the preview server: ` + (e?.message || 'request failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const port = status?.port ?? fallbackPort;
+  const style = status ? STATE_STYLES[status.state] : null;
+  return (
+    <div className="h-full min-h-0 flex flex-col">
+      <div className="px-3 py-1 border-b text-xs flex items-center gap-2 bg-gray-50">
+        {style && <span className={'inline-block w-2 h-2 rounded-full ' + style.className}></span>}
+        <span className="flex-1 text-gray-600">
+          {style ? style.label : 'Engine unreachable'} · localhost:{port}
+        </span>
+        {status?.state === 'stopped' ? (
+          <button onClick={() => act('start')} disabled={busy} className="px-2 py-0.5 rounded border">
+            Start
+          </button>
+        ) : (
+          <button onClick={() => act('restart')} disabled={busy || !status} className="px-2 py-0.5 rounded border">
+            Restart
+          </button>
+        )}
+      </div>
+      {status?.state === 'crashed' && (
+        <pre className="max-h-48 overflow-auto p-3 text-xs whitespace-pre-wrap bg-red-50 text-red-800 border-b">
+          {`Exited with code ${status.exit_code ?? 'unknown'}\n${status.error || ''}`}
+        </pre>
+      )}
+      {/* Keyed on the run so a restarted server gets a fresh page; lov_session tags the preview's console output */}
+      <iframe
+        key={`${projectId}-${status?.ready_at ?? ''}`}
+        title="workspace"
+        src={`http://localhost:${port}/` + (sessionId ? `?lov_session=${sessionId}` : '')}
+        className="w-full flex-1"
+      ></iframe>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { Project } from './engine';
+
+type Props = {
+  projects: Project[];
+  activeId: string | null;
+  disabled: boolean;
+  onSwitch: (id: string) => void;
+  onNew: () => void;
+};
+
+// Picks the project the chat, files and preview work on
+export default function ProjectSwitcher({ projects, activeId, disabled, onSwitch, onNew }: Props) {
+  return (
+    <div className="p-3 border-b space-y-2">
+      <select
+        value={activeId ?? ''}
+        onChange={(e) => onSwitch(e.target.value)}
+        disabled={disabled}
+        className="w-full border rounded px-2 py-1 text-sm bg-white"
+      >
+        {projects.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name} (:{p.preview_port})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className="w-full px-3 py-1 rounded border text-sm bg-white"
+      >
+        New project
+      </button>
+    </div>
+  );
+}
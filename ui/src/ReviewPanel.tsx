@@ -0,0 +1,71 @@
+import React from 'react';
+
+export type Proposal = {
+  id: string;
+  tool: string;
+  kind: 'write' | 'rename';
+  file: string;
+  new_file?: string;
+  status: 'pending' | 'applied' | 'rejected' | 'conflict';
+  diff: string;
+  note?: string;
+};
+
+type Props = {
+  proposals: Proposal[];
+  onApprove: (id: string) => void;
+  onReject: (id: string) => void;
+};
+
+function DiffView({ diff }: { diff: string }) {
+  return (
+    <pre className="text-xs overflow-auto max-h-64 bg-white border rounded p-2">
+      {diff.split('\n').map((line, i) => (
+        <div
+          key={i}
+          className={
+            line.startsWith('+') && !line.startsWith('+++')
+              ? 'bg-green-50 text-green-800'
+              : line.startsWith('-') && !line.startsWith('---')
+                ? 'bg-red-50 text-red-800'
+                : line.startsWith('@@')
+                  ? 'text-blue-700'
+                  : ''
+          }
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+// Pending file changes queued by the assistant in review mode
+export default function ReviewPanel({ proposals, onApprove, onReject }: Props) {
+  if (!proposals.length) return null;
+  return (
+    <div className="border-t max-h-[45%] overflow-auto p-3 space-y-3 bg-amber-50">
+      <div className="text-sm font-medium">Pending changes ({proposals.length})</div>
+      {proposals.map((p) => (
+        <div key={p.id} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-mono flex-1 truncate">
+              {p.kind === 'rename' ? `${p.file} → ${p.new_file}` : p.file}
+              <span className="text-gray-500"> ({p.tool})</span>
+            </span>
+            {p.status === 'conflict' && <span className="text-xs text-red-600">{p.note || 'conflict'}</span>}
+            {p.status === 'pending' && (
+              <button onClick={() => onApprove(p.id)} className="px-2 py-1 rounded bg-green-600 text-white text-xs">
+                Approve
+              </button>
+            )}
+            <button onClick={() => onReject(p.id)} disabled={p.status !== 'pending'} className="px-2 py-1 rounded border text-xs">
+              Reject
+            </button>
+          </div>
+          <DiffView diff={p.diff} />
+        </div>
+      ))}
+    </div>
+  );
+}
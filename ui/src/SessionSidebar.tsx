@@ -0,0 +1,56 @@
+import React from 'react';
+import type { SessionSummary } from './engine';
+
+type Props = {
+  sessions: SessionSummary[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  // Rendered above the session list (the project switcher)
+  children?: React.ReactNode;
+};
+
+export default function SessionSidebar({ sessions, activeId, onSelect, onNew, onRename, onDelete, children }: Props) {
+  return (
+    <div className="h-full flex flex-col border-r bg-gray-50">
+      {children}
+      <div className="p-3 border-b">
+        <button onClick={onNew} className="w-full px-3 py-2 rounded bg-black text-white text-sm">
+          New session
+        </button>
+      </div>
+      <ul className="flex-1 overflow-auto text-sm">
+        {sessions.map((s) => (
+          <li
+            key={s.id}
+            onClick={() => onSelect(s.id)}
+            className={'group px-3 py-2 cursor-pointer flex items-center gap-1 ' + (s.id === activeId ? 'bg-gray-200' : 'hover:bg-gray-100')}
+          >
+            <span className="flex-1 truncate" title={s.title}>{s.title}</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                const title = window.prompt('Rename session', s.title);
+                if (title !== null) onRename(s.id, title);
+              }}
+              className="hidden group-hover:inline text-xs text-gray-500"
+            >
+              rename
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (window.confirm(`Delete "${s.title}"?`)) onDelete(s.id);
+              }}
+              className="hidden group-hover:inline text-xs text-red-600"
+            >
+              delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
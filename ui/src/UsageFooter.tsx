@@ -0,0 +1,40 @@
+import React from 'react';
+import type { TurnUsage, UsageTotals } from './engine';
+
+type Props = {
+  session: UsageTotals | null;
+  last: TurnUsage | null;
+};
+
+function formatTokens(n: number): string {
+  return n >= 10_000 ? `${(n / 1000).toFixed(1)}k` : n.toLocaleString();
+}
+
+function formatCost(usd: number, unpriced: number): string {
+  const cost = usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+  return unpriced ? `${cost} + ${unpriced} unpriced call${unpriced === 1 ? '' : 's'}` : cost;
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`;
+}
+
+// Session token/cost totals and the latest turn's timing, under the chat input
+export default function UsageFooter({ session, last }: Props) {
+  if (!session && !last) return null;
+  return (
+    <div className="px-3 pb-2 text-[11px] text-gray-500 flex gap-3">
+      {session && (
+        <span title={`${session.prompt_tokens.toLocaleString()} prompt / ${session.completion_tokens.toLocaleString()} completion tokens in ${session.calls} calls`}>
+          Session: {formatTokens(session.total_tokens)} tokens · {formatCost(session.cost_usd, session.unpriced_calls)}
+        </span>
+      )}
+      {last && (
+        <span title={last.llm_calls.map((c) => `${c.model}: ${formatMs(c.latency_ms)}`).join('\n')}>
+          Last turn: {formatTokens(last.total_tokens)} tokens in {formatMs(last.duration_ms)} (model {formatMs(last.llm_ms)}, tools{' '}
+          {formatMs(last.tool_ms)})
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+export const ENGINE_URL = 'http://localhost:8787';
+
+export type SessionSummary = {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+};
+
+// A project the engine manages; its dev server serves the preview on preview_port
+export type Project = {
+  id: string;
+  name: string;
+  root: string;
+  preview_port: number;
+  created_from?: string;
+  created_at: string;
+};
+
+// Token, cost and latency totals the engine keeps per session (GET /stats)
+export type UsageTotals = {
+  turns: number;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  unpriced_calls: number;
+  llm_ms: number;
+  tool_ms: number;
+  duration_ms: number;
+};
+
+export type TurnUsage = UsageTotals & {
+  at: string;
+  llm_calls: { step: number; model: string; prompt_tokens: number; completion_tokens: number; latency_ms: number; cost_usd: number | null }[];
+  tools: { id: string; name: string; duration_ms: number }[];
+};
+
+// Stored transcript entry as the engine keeps it (OpenAI chat message shape)
+export type StoredMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+  attachments?: AttachmentRef[];
+};
+
+// An image attached to a user message; the bytes are served from the session's attachments route
+export type AttachmentRef = { id: string; name: string; mime: string };
+
+export function attachmentUrl(sessionId: string, id: string): string {
+  return `${ENGINE_URL}/sessions/${sessionId}/attachments/${id}`;
+}
+
+// Uploads an image as the raw request body (engineJson always sends JSON)
+export async function uploadAttachment(sessionId: string, file: File): Promise<AttachmentRef> {
+  const res = await fetch(`${ENGINE_URL}/sessions/${sessionId}/attachments?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || res.statusText);
+  return data as AttachmentRef;
+}
+
+export async function engineJson<T = any>(pathname: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(ENGINE_URL + pathname, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+  });
+  if (res.status === 204) return undefined as T;
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || res.statusText);
+  return data as T;
+}
+
+// Splits an SSE byte stream into { event, data } pairs as they arrive
+export async function readEvents(res: Response, onEvent: (event: string, data: any) => void) {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let sep: number;
+    while ((sep = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      try {
+        onEvent(event, data ? JSON.parse(data) : null);
+      } catch (_) {
+        onEvent(event, data);
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+// Minimal regex-based syntax highlighting for the file viewer (read-only, so no incremental parsing)
+export type TokenKind = 'plain' | 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'attr';
+export type Token = { kind: TokenKind; text: string };
+
+type Rule = [TokenKind, RegExp];
+
+const JS_KEYWORDS =
+  'abstract as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield';
+
+const RULES: Record<string, Rule[]> = {
+  ts: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?\*\//],
+    ['string', /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/],
+    ['tag', /<\/?[A-Za-z][\w.]*/],
+    ['keyword', new RegExp(`\\b(?:${JS_KEYWORDS.split(' ').join('|')})\\b`)],
+    ['number', /\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?\b/i],
+  ],
+  css: [
+    ['comment', /\/\*[\s\S]*?\*\//],
+    ['string', /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"/],
+    ['keyword', /@[\w-]+/],
+    ['attr', /[\w-]+(?=\s*:)/],
+    ['number', /-?\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms)?/],
+  ],
+  json: [
+    ['attr', /"(?:\\.|[^"\\\n])*"(?=\s*:)/],
+    ['string', /"(?:\\.|[^"\\\n])*"/],
+    ['keyword', /\b(?:true|false|null)\b/],
+    ['number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/i],
+  ],
+  html: [
+    ['comment', /<!--[\s\S]*?-->/],
+    ['tag', /<\/?[A-Za-z][\w-]*|\/?>/],
+    ['string', /'[^']*'|"[^"]*"/],
+    ['attr', /[\w:-]+(?==)/],
+  ],
+};
+
+export function languageFor(file: string): string {
+  const ext = file.slice(file.lastIndexOf('.') + 1).toLowerCase();
+  if (['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs'].includes(ext)) return 'ts';
+  if (['css', 'scss'].includes(ext)) return 'css';
+  if (ext === 'json') return 'json';
+  if (['html', 'svg', 'xml'].includes(ext)) return 'html';
+  return 'text';
+}
+
+export function tokenize(code: string, language: string): Token[] {
+  const rules = RULES[language];
+  if (!rules) return [{ kind: 'plain', text: code }];
+  // One alternation with a capture group per rule; the first group that matched names the kind
+  const combined = new RegExp(rules.map(([, re]) => `(${re.source})`).join('|'), 'g');
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const m of code.matchAll(combined)) {
+    const index = m.index ?? 0;
+    if (!m[0]) continue;
+    if (index > last) tokens.push({ kind: 'plain', text: code.slice(last, index) });
+    const group = m.slice(1).findIndex((g) => g !== undefined);
+    tokens.push({ kind: rules[group][0], text: m[0] });
+    last = index + m[0].length;
+  }
+  if (last < code.length) tokens.push({ kind: 'plain', text: code.slice(last) });
+  return tokens;
+}
+
+export const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-700',
+  keyword: 'text-purple-700',
+  number: 'text-orange-700',
+  tag: 'text-blue-700',
+  attr: 'text-sky-700',
+};
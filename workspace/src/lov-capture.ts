@@ -0,0 +1,247 @@
+/// <reference types="vite/client" />
+// Forwards preview runtime output (console, errors, network requests) to the engine so the assistant can read it.
+// Injected ahead of the app by the lovCapture plugin in vite.config.ts; keep it dependency-free.
+
+type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+type ConsoleEntry = {
+  level: ConsoleLevel | 'uncaught' | 'unhandledrejection';
+  message: string;
+  stack?: string;
+  url?: string;
+  timestamp: number;
+};
+
+type NetworkEntry = {
+  method: string;
+  url: string;
+  status: number; // 0 when the request failed without a response
+  duration_ms: number;
+  request_body?: string;
+  response_body?: string;
+  error?: string;
+  timestamp: number;
+};
+
+const ENGINE_URL: string = import.meta.env.VITE_ENGINE_URL || 'http://localhost:8787';
+const FLUSH_INTERVAL_MS = 500;
+const MAX_BATCH = 100;
+const MAX_MESSAGE_CHARS = 2000;
+const MAX_BODY_CHARS = 2000;
+const TEXTUAL_CONTENT_TYPE = /json|text|xml|javascript|x-www-form-urlencoded/i;
+
+// The UI passes ?lov_session=<id> to the iframe; remember it across in-app navigation
+function currentSession(): string | undefined {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get('lov_session');
+    if (fromUrl) sessionStorage.setItem('lov_session', fromUrl);
+    return sessionStorage.getItem('lov_session') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  try {
+    const seen = new WeakSet<object>();
+    return JSON.stringify(value, (_k, v) => {
+      if (typeof v === 'object' && v !== null) {
+        if (seen.has(v)) return '[Circular]';
+        seen.add(v);
+      }
+      return typeof v === 'function' ? `[Function ${v.name || 'anonymous'}]` : v;
+    }) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// Keep a reference that the fetch instrumentation below cannot intercept
+const send = window.fetch.bind(window);
+
+// Batches entries and posts them to one engine endpoint
+function createReporter<T>(endpoint: string) {
+  let queue: T[] = [];
+  let timer: number | undefined;
+
+  function flush() {
+    timer = undefined;
+    if (!queue.length) return;
+    const entries = queue.slice(0, MAX_BATCH);
+    queue = queue.slice(MAX_BATCH);
+    send(`${ENGINE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session_id: currentSession(), entries }),
+      keepalive: true,
+    }).catch(() => {
+      // engine unreachable: drop the batch rather than retry forever
+    });
+    if (queue.length) schedule();
+  }
+
+  function schedule() {
+    if (timer === undefined) timer = window.setTimeout(flush, FLUSH_INTERVAL_MS);
+  }
+
+  return {
+    push(entry: T) {
+      queue.push(entry);
+      schedule();
+    },
+    flush,
+  };
+}
+
+const consoleReporter = createReporter<ConsoleEntry>('/preview/console');
+const networkReporter = createReporter<NetworkEntry>('/preview/network');
+
+function record(entry: Omit<ConsoleEntry, 'timestamp' | 'url'>) {
+  consoleReporter.push({
+    ...entry,
+    message: entry.message.slice(0, MAX_MESSAGE_CHARS),
+    url: window.location.pathname + window.location.search,
+    timestamp: Date.now(),
+  });
+}
+
+for (const level of ['log', 'info', 'warn', 'error', 'debug'] as ConsoleLevel[]) {
+  const original = console[level].bind(console);
+  console[level] = (...args: unknown[]) => {
+    original(...args);
+    const error = args.find((a): a is Error => a instanceof Error);
+    record({ level, message: args.map(stringify).join(' '), stack: error?.stack });
+  };
+}
+
+window.addEventListener('error', (event) => {
+  const where = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : '';
+  record({ level: 'uncaught', message: `${event.message}${where}`, stack: event.error?.stack });
+});
+
+window.addEventListener('unhandledrejection', (event) => {
+  const reason = event.reason;
+  record({ level: 'unhandledrejection', message: stringify(reason), stack: reason instanceof Error ? reason.stack : undefined });
+});
+
+// -----------------------------
+// Network requests
+// -----------------------------
+function truncateBody(body: string | undefined): string | undefined {
+  if (body === undefined) return undefined;
+  return body.length > MAX_BODY_CHARS ? body.slice(0, MAX_BODY_CHARS) + `… [${body.length - MAX_BODY_CHARS} more chars]` : body;
+}
+
+function describeBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return truncateBody(body);
+  if (body instanceof URLSearchParams) return truncateBody(body.toString());
+  if (body instanceof FormData) return '[FormData]';
+  if (body instanceof Blob) return `[Blob ${body.size} bytes]`;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return `[Binary ${(body as ArrayBuffer).byteLength} bytes]`;
+  return '[Body]';
+}
+
+function absoluteUrl(url: string): string {
+  try {
+    return new URL(url, window.location.href).href;
+  } catch {
+    return url;
+  }
+}
+
+const originalFetch = window.fetch;
+window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+  const started = performance.now();
+  const request = input instanceof Request ? input : undefined;
+  const method = (init?.method || request?.method || 'GET').toUpperCase();
+  const url = absoluteUrl(request ? request.url : String(input));
+  const requestBody = describeBody(init?.body);
+  try {
+    const response = await originalFetch(input, init);
+    const entry: NetworkEntry = {
+      method,
+      url,
+      status: response.status,
+      duration_ms: Math.round(performance.now() - started),
+      request_body: requestBody,
+      timestamp: Date.now(),
+    };
+    // Read a clone so the app still gets an unread body
+    if (TEXTUAL_CONTENT_TYPE.test(response.headers.get('content-type') || '')) {
+      response
+        .clone()
+        .text()
+        .then((text) => networkReporter.push({ ...entry, response_body: truncateBody(text) }))
+        .catch(() => networkReporter.push(entry));
+    } else {
+      networkReporter.push(entry);
+    }
+    return response;
+  } catch (err) {
+    networkReporter.push({
+      method,
+      url,
+      status: 0,
+      duration_ms: Math.round(performance.now() - started),
+      request_body: requestBody,
+      error: stringify(err),
+      timestamp: Date.now(),
+    });
+    throw err;
+  }
+};
+
+const originalOpen = XMLHttpRequest.prototype.open;
+const originalSend = XMLHttpRequest.prototype.send;
+const xhrInfo = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+// open(method, url) or open(method, url, async, username?, password?)
+type XhrOpenArgs = Parameters<typeof originalOpen>;
+
+XMLHttpRequest.prototype.open = function (
+  this: XMLHttpRequest,
+  method: string,
+  url: string | URL,
+  ...rest: [async?: XhrOpenArgs[2], username?: XhrOpenArgs[3], password?: XhrOpenArgs[4]]
+) {
+  xhrInfo.set(this, { method: method.toUpperCase(), url: absoluteUrl(String(url)) });
+  return originalOpen.apply(this, [method, url, ...rest] as XhrOpenArgs);
+};
+
+XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+  const info = xhrInfo.get(this);
+  const started = performance.now();
+  if (info) {
+    this.addEventListener('loadend', () => {
+      let responseBody: string | undefined;
+      try {
+        if ((this.responseType === '' || this.responseType === 'text') && TEXTUAL_CONTENT_TYPE.test(this.getResponseHeader('content-type') || '')) {
+          responseBody = truncateBody(this.responseText);
+        }
+      } catch {
+        // responseText is unavailable for some response types
+      }
+      networkReporter.push({
+        method: info.method,
+        url: info.url,
+        status: this.status,
+        duration_ms: Math.round(performance.now() - started),
+        request_body: describeBody(body),
+        response_body: responseBody,
+        error: this.status === 0 ? 'Network error or request aborted' : undefined,
+        timestamp: Date.now(),
+      });
+    });
+  }
+  return originalSend.call(this, body);
+};
+
+window.addEventListener('pagehide', () => {
+  consoleReporter.flush();
+  networkReporter.flush();
+});
+
+export {};
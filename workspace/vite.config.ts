@@ -1,10 +1,20 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Loads the preview capture script before the app so early errors are reported to the engine
+function lovCapture(): Plugin {
+  return {
+    name: 'lov-capture',
+    apply: 'serve',
+    transformIndexHtml() {
+      return [{ tag: 'script', attrs: { type: 'module', src: '/src/lov-capture.ts' }, injectTo: 'head-prepend' }];
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [lovCapture(), react()],
   server: {
     port: 5173,
   },
 });
-